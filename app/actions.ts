@@ -1,24 +1,22 @@
 "use server";
 
-import { runSource } from "@/lib/runSource";
-import { isMetricId } from "@/lib/catalog";
+import { runPlan } from "@/lib/runSource";
+import { DataError, type DataErrorInfo } from "@/lib/errors";
+import type { RunResult } from "@/lib/schema";
 
-export type ServerOut = {
-  rows: Array<{ date?: string; time?: string; year?: string | number; value: number; series?: string }>;
-  yLabel?: string;
-  title?: string;
-  provenance: { source: string; url: string; license?: string };
-};
+/**
+ * Canonical rows ({ date, value, series? }) with their granularity, unit and provenance,
+ * or the typed error that stopped the run (returned, not thrown, so its kind, retry
+ * hint and recovery actions survive the server-action boundary).
+ */
+export type ServerOut = RunResult | { error: DataErrorInfo };
 
 /** Execute a data plan on the server to avoid browser CORS. */
 export async function getDataForPlan(plan: { metricId: string; params?: Record<string, any> }): Promise<ServerOut> {
   try {
-    const { metricId, params } = plan || ({} as any);
-    if (!isMetricId(metricId)) {
-      throw new Error(`Unknown metricId: ${metricId}`);
-    }
-    return await runSource(metricId as any, params || {});
+    return await runPlan(plan || {});
   } catch (err: any) {
+    if (err instanceof DataError) return { error: err.toJSON() };
     console.error("getDataForPlan error:", err?.stack || err);
     // Normalize error shape so the client shows a helpful message
     throw new Error(err?.message || "Server failed to fetch data");
@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
+import { searchWdiIndicators } from '@/lib/wdiIndex';
+import { searchOwidCharts } from '@/lib/owidIndex';
+import { ALLOWED_SOURCES } from '@/lib/allowlist';
+import { CATALOG, isMetricId } from '@/lib/catalog';
+import { matchMetricByKeywords } from '@/lib/sources';
 
-const AllowedSources = z.enum(["worldbank","openmeteo","owid","bls","epa_aqi","unknown"]);
+const AllowedSources = z.enum([...ALLOWED_SOURCES, "unknown"]);
 
 const SuggestionSchema = z.object({
   source: AllowedSources,
@@ -9,7 +14,11 @@ const SuggestionSchema = z.object({
   params: z.record(z.string(), z.any()).nullable(),
   confidence: z.number().min(0).max(1),
   explain: z.string().nullable(),
-});
+}).refine(
+  // A metric must be in the catalog and belong to the suggested source
+  (s) => s.metricId == null || (isMetricId(s.metricId) && CATALOG[s.metricId].source === s.source),
+  { message: "metricId does not belong to source", path: ["metricId"] }
+);
 
 type Suggestion = z.infer<typeof SuggestionSchema>;
 
@@ -75,13 +84,13 @@ function heuristicSuggest(query: string): Suggestion {
   }
 
   // Simple heuristics (mirrors parts of the client planner) --- conservative
-  if (/(temp|temperature|°c|°f)/.test(q)) {
+  if (/(temp|temperature|°c|°f)|\b(precip|rain|snowfall|wind|humid)/.test(q)) {
     const m = q.match(/(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)/);
     if (m) {
       return { source: 'openmeteo', metricId: null, params: { lat: Number(m[1]), lon: Number(m[2]) }, confidence: 0.98, explain: 'Explicit lat,lon -> Open-Meteo' };
     }
     const years = parseYears(q);
-    return { source: 'openmeteo', metricId: null, params: Object.keys(years).length ? years : null, confidence: 0.8, explain: 'Temperature query -> Open-Meteo' };
+    return { source: 'openmeteo', metricId: null, params: Object.keys(years).length ? years : null, confidence: 0.8, explain: 'Weather query -> Open-Meteo' };
   }
 
   if (/(population|pop)\b/.test(q)) {
@@ -94,6 +103,35 @@ function heuristicSuggest(query: string): Suggestion {
     return { source: 'worldbank', metricId: 'gdp_per_capita', params: Object.keys(years).length ? years : null, confidence: 0.95, explain: 'GDP per capita -> World Bank' };
   }
 
+  const blsSeries =
+    /\bcore\s+(cpi|inflation)\b/.test(q) ? 'cpi_core'
+    : /\bcpi[-\s]?u\b|\bconsumer\s+price\s+index\b/.test(q) ? 'cpi_all_items'
+    : /\bnon[-\s]?farm\b|\bpayrolls?\b/.test(q) ? 'nonfarm_payrolls'
+    : /\bhourly\s+earnings\b/.test(q) ? 'avg_hourly_earnings'
+    : /\b(labor|labour)\s+force\s+participation\b|\bparticipation\s+rate\b/.test(q) ? 'labor_force_participation'
+    : /(unemployment|jobless)/.test(q) && /\bby\s+(sex|gender|age|education)\b/.test(q) ? q.match(/\bby\s+(sex|gender|age|education)\b/)![1].replace('gender', 'sex')
+    : undefined;
+  if (blsSeries) {
+    const years = parseYears(q);
+    return { source: 'bls', metricId: 'bls_series', params: { series: blsSeries, ...years }, confidence: 0.9, explain: 'US labor/price series -> BLS' };
+  }
+
+  if (/\benroll(ment|ed)?\b/.test(q) && /\b(schools?|k-?12|students?|grade|kindergarten)\b/.test(q) && !/\b(college|universit(y|ies)|tertiary)\b/.test(q)) {
+    const years = parseYears(q);
+    const metricId = /by\s*race|black|white|asian|hispanic/.test(q) ? 'urban_enrollment_race' : 'urban_enrollment_grade';
+    return { source: 'urban', metricId, params: Object.keys(years).length ? years : null, confidence: 0.85, explain: 'US school enrollment -> Urban Institute (CCD)' };
+  }
+
+  if (/\bipeds\b|\b(degrees?|certificates?|completions?)\b.*\b(awarded|conferred)\b/.test(q)) {
+    const years = parseYears(q);
+    return { source: 'urban', metricId: 'urban_ipeds_completions', params: Object.keys(years).length ? years : null, confidence: 0.85, explain: 'College completions -> Urban Institute (IPEDS)' };
+  }
+
+  if (/\b(finances?|spending|revenues?|expenditures?)\b/.test(q) && /\bschool\s+districts?\b|\bk-?12\b/.test(q)) {
+    const years = parseYears(q);
+    return { source: 'urban', metricId: 'urban_school_finance', params: Object.keys(years).length ? years : null, confidence: 0.85, explain: 'School district finance -> Urban Institute (CCD)' };
+  }
+
   if (/(inflation|cpi)\b/.test(q)) {
     const years = parseYears(q);
     return { source: 'worldbank', metricId: 'inflation_cpi_pct', params: Object.keys(years).length ? years : null, confidence: 0.95, explain: 'Inflation/CPI -> World Bank' };
@@ -109,6 +147,12 @@ function heuristicSuggest(query: string): Suggestion {
   }
 
   if (/(aqi|air\s*quality)/.test(q)) {
+    if (/\b(pollutants?|defining|drove|drives|driv(er|ers|ing)|ozone|pm\s*2\.?5|pm\s*10|no2|so2)\b/.test(q)) {
+      return { source: 'epa_aqi', metricId: 'aqi_pollutant_days_cbsa', params: null, confidence: 0.9, explain: 'AQI by defining pollutant -> EPA AirData' };
+    }
+    if (/\b(categor(y|ies)|unhealthy|good\s+days|days\s+(per|by|in))\b/.test(q)) {
+      return { source: 'epa_aqi', metricId: 'aqi_category_days_cbsa', params: null, confidence: 0.9, explain: 'AQI category days -> EPA AirData' };
+    }
     return { source: 'epa_aqi', metricId: 'aqi_daily_cbsa', params: null, confidence: 0.92, explain: 'AQI -> EPA AirData' };
   }
 
@@ -117,8 +161,11 @@ function heuristicSuggest(query: string): Suggestion {
     return { source: 'owid', metricId: 'life_expectancy', params: Object.keys(years).length ? years : null, confidence: 0.95, explain: 'Life expectancy -> OWID' };
   }
 
-  if (/(co2|carbon\s+emissions?)/.test(q)) {
+  if (/(co2|carbon\s+(dioxide\s+)?emissions?|\b(coal|oil|gas|cement|flaring)\s+emissions?|\bmethane\b|nitrous\s+oxide|greenhouse\s+gas|\bghg\b)/.test(q)) {
     const years = parseYears(q);
+    if (/\bby\s+(fuel|source)\b|\bfuel\s+(mix|breakdown)\b|\bbreak\s*down\b|\bbreakdown\b/.test(q)) {
+      return { source: 'owid', metricId: 'co2_by_fuel', params: Object.keys(years).length ? years : null, confidence: 0.95, explain: 'CO2 by fuel -> OWID' };
+    }
     return { source: 'owid', metricId: 'co2_emissions', params: Object.keys(years).length ? years : null, confidence: 0.95, explain: 'CO2 emissions -> OWID' };
   }
 
@@ -126,6 +173,70 @@ function heuristicSuggest(query: string): Suggestion {
   return { source: 'unknown', metricId: null, params: null, confidence: 0.0, explain: 'No confident suggestion' };
 }
 
+type ScoredSuggestion = { suggestion: Suggestion; score: number };
+
+// Keyword search over the WDI indicator index for anything the regexes above miss
+async function wdiSuggest(query: string): Promise<ScoredSuggestion | null> {
+  try {
+    const [top] = await searchWdiIndicators(query, 1);
+    if (!top || top.score < 2) return null;
+    return {
+      score: top.score,
+      suggestion: {
+        source: 'worldbank',
+        metricId: 'worldbank_indicator',
+        params: { indicator: top.code },
+        confidence: top.score >= 4 ? 0.85 : 0.7,
+        explain: `WDI indicator match: ${top.name} (${top.code})`,
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Same for the bundled OWID Grapher chart list
+function owidSuggest(query: string): ScoredSuggestion | null {
+  try {
+    const [top] = searchOwidCharts(query, 1);
+    if (!top || top.score < 2) return null;
+    return {
+      score: top.score,
+      suggestion: {
+        source: 'owid',
+        metricId: 'owid_grapher',
+        params: { slug: top.slug },
+        confidence: top.score >= 4 ? 0.85 : 0.7,
+        explain: `OWID chart match: ${top.title} (${top.slug})`,
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Stronger of the WDI and OWID keyword matches (WDI on ties); explicit OWID mentions prefer OWID. */
+async function keywordSuggest(query: string): Promise<Suggestion | null> {
+  const owid = owidSuggest(query);
+  if (owid && /\b(owid|our\s+world\s+in\s+data)\b|grapher\//i.test(query)) return owid.suggestion;
+  const wdi = await wdiSuggest(query);
+  if (!wdi || !owid) return (wdi ?? owid)?.suggestion ?? null;
+  return owid.score > wdi.score ? owid.suggestion : wdi.suggestion;
+}
+
+// Last resort: planner keywords declared by the sources themselves (src/lib/sources)
+function registrySuggest(query: string): Suggestion | null {
+  const hit = matchMetricByKeywords(query);
+  if (!hit) return null;
+  return {
+    source: hit.source,
+    metricId: hit.metricId,
+    params: null,
+    confidence: 0.6,
+    explain: `Keyword match (${hit.keywords.join(', ')}) -> ${hit.metricId}`,
+  };
+}
+
 export async function POST(req: Request) {
   try {
     const body = await req.json();
@@ -143,6 +254,10 @@ export async function POST(req: Request) {
 
     // Fallback heuristic
     const sug = heuristicSuggest(query);
+    if (sug.source === 'unknown') {
+      const keyword = (await keywordSuggest(query)) ?? registrySuggest(query);
+      if (keyword) return NextResponse.json(keyword);
+    }
     return NextResponse.json(sug);
   } catch (err: any) {
     return NextResponse.json({ source: 'unknown', metricId: null, params: null, confidence: 0.0, explain: String(err?.message ?? 'error') });
@@ -0,0 +1,61 @@
+// app/api/data/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { bodyInput, checkRate, failureResponse, ParamsSchema, provenanceHeaders, requestError, resolvePlan, searchParamsInput } from "@/lib/dataApi";
+import { CONTENT_TYPE, DATA_FORMATS, formatFromAccept, toCsv, toNdjson, type DataFormat } from "@/lib/formats";
+
+export const runtime = "nodejs";
+
+/**
+ * Public data API: the same planner and runSource as the home page, for
+ * notebooks and scripts.
+ *   GET  /api/data?q=US unemployment since 2000&format=csv
+ *   GET  /api/data?metric=gdp_per_capita&country=IND,CHN&start=2000
+ *   POST /api/data { "metricId": "...", "params": { ... } } or { "query": "..." }
+ * Responds with JSON (the RunResult plus the plan that ran), CSV or NDJSON
+ * (`format`, or the Accept header); provenance is in X-Lookable-* headers.
+ * Errors are `{ error: DataErrorInfo }` with a matching HTTP status.
+ */
+
+const DataRequest = z
+  .object({
+    metricId: z.string().trim().min(1).optional(),
+    params: ParamsSchema.optional(),
+    query: z.string().trim().min(1).max(500, "must be at most 500 characters").optional(),
+    format: z.enum(DATA_FORMATS).optional(),
+  })
+  .refine((r) => !!r.metricId !== !!r.query, { message: "send either a metricId (with params) or a free-text query", path: ["metricId"] });
+
+async function handle(req: Request, input: unknown) {
+  const { headers, limited } = checkRate(req);
+  if (limited) return limited;
+
+  const parsed = DataRequest.safeParse(input);
+  if (!parsed.success) return requestError(parsed.error, headers);
+  const body = parsed.data;
+  const fmt: DataFormat = body.format ?? formatFromAccept(req.headers.get("accept")) ?? "json";
+
+  try {
+    // Lazy-import so import-time failures don't take the route down.
+    const { runPlan } = await import("@/lib/runSource");
+    const plan = await resolvePlan(body);
+    const result = await runPlan(plan);
+    const out = { ...headers, ...provenanceHeaders(result, plan), "Content-Type": CONTENT_TYPE[fmt] };
+    if (fmt === "csv") {
+      return new NextResponse(toCsv(result), { headers: { ...out, "Content-Disposition": `inline; filename="${plan.metricId}.csv"` } });
+    }
+    if (fmt === "ndjson") return new NextResponse(toNdjson(result), { headers: out });
+    return NextResponse.json({ ...result, plan }, { headers: out });
+  } catch (err: unknown) {
+    return failureResponse(err, "api/data", headers);
+  }
+}
+
+export async function GET(req: Request) {
+  return handle(req, searchParamsInput(new URL(req.url).searchParams, ["format"]));
+}
+
+export async function POST(req: Request) {
+  // ?format= works for POST too; a body that isn't a JSON object fails validation
+  return handle(req, await bodyInput(req));
+}
@@ -0,0 +1,50 @@
+// app/api/epa/cbsa/route.ts
+import { NextResponse } from "next/server";
+import { checkRate } from "@/lib/dataApi";
+
+export const runtime = "nodejs";
+
+// AirData daily files start in 1980
+const FIRST_YEAR = 1980;
+
+/**
+ * CBSA (metro area) lookup for EPA AQI: /api/epa/cbsa?q=LA metro&year=2024&limit=5
+ * → { match, candidates: [{ code, name, score }], ambiguous }. An empty `q` lists every CBSA.
+ * Only years whose index is already built are served (503 until POST /api/epa/warm
+ * or a data request has built it); `year` is clamped to the years EPA publishes.
+ * Counts against the data API's per-client rate limit.
+ */
+export async function GET(req: Request) {
+  const { headers, limited } = checkRate(req);
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+  const q = searchParams.get("q") ?? "";
+  const now = new Date().getFullYear();
+  const year = Math.min(now, Math.max(FIRST_YEAR, Math.trunc(Number(searchParams.get("year")) || now - 1)));
+  const limit = Math.min(25, Math.max(1, Number(searchParams.get("limit")) || 5));
+  try {
+    // Lazy-import so import-time failures don't 500 the route.
+    const mod = await import("@/lib/fetchers/epa_aqi").catch(() => null);
+    if (!mod?.resolveCbsa) {
+      return NextResponse.json({ match: null, candidates: [], ambiguous: false }, { status: 200, headers });
+    }
+
+    const all = await mod.builtCbsaIndex(year);
+    if (!all) {
+      return NextResponse.json(
+        { match: null, candidates: [], ambiguous: false, error: `The ${year} EPA index isn't built yet (POST /api/epa/warm?years=${year})` },
+        { status: 503, headers }
+      );
+    }
+    if (!q.trim()) return NextResponse.json({ match: null, candidates: all, ambiguous: false }, { headers });
+    const { match, candidates, ambiguous } = await mod.resolveCbsa(q, year, limit);
+    return NextResponse.json({ match: match ?? null, candidates, ambiguous }, { headers });
+  } catch (err: unknown) {
+    // Never 500: the planner keeps its default metro area
+    return NextResponse.json(
+      { match: null, candidates: [], ambiguous: false, error: String((err as Error)?.message ?? err) },
+      { status: 200, headers }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+// app/api/epa/warm/route.ts
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import { checkRate } from "@/lib/dataApi";
+
+export const runtime = "nodejs";
+
+// AirData daily files start in 1980
+const FIRST_YEAR = 1980;
+
+// Each year is a national zip to download and index; more than this per call is refused
+const MAX_YEARS = 5;
+
+/** "2015-2024", "2019,2021" or a mix → sorted distinct years within the published range. */
+function parseYears(raw: string): number[] {
+  const last = new Date().getFullYear();
+  const years = new Set<number>();
+  for (const part of raw.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const m = part.match(/^(\d{4})\s*[-–]\s*(\d{4})$/);
+    const [a, b] = m ? [Number(m[1]), Number(m[2])] : [Number(part), Number(part)];
+    if (!Number.isInteger(a) || !Number.isInteger(b)) continue;
+    for (let y = Math.max(FIRST_YEAR, Math.min(a, b)); y <= Math.min(last, Math.max(a, b)); y++) years.add(y);
+  }
+  return Array.from(years).sort((x, y) => x - y);
+}
+
+/**
+ * `Authorization: Bearer <LOOKABLE_WARM_TOKEN>`. Without the env var set the
+ * route only runs outside production (`next dev`).
+ */
+function authorized(req: Request): boolean {
+  const token = process.env.LOOKABLE_WARM_TOKEN;
+  if (!token) return process.env.NODE_ENV !== "production";
+  const given = Buffer.from(req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "");
+  const want = Buffer.from(token);
+  return given.length === want.length && timingSafeEqual(given, want);
+}
+
+/**
+ * Pre-build the EPA per-CBSA index: POST /api/epa/warm?years=2015-2019
+ * → { years: [{ year, cbsas, from: "disk" | "built", builtAt } | { year, error }] }.
+ * Years are built one after another, at most MAX_YEARS per call; defaults to
+ * the last five. Needs the warm token (see `authorized`) and counts against the
+ * data API's per-client rate limit.
+ */
+export async function POST(req: Request) {
+  const { headers, limited } = checkRate(req);
+  if (limited) return limited;
+  if (!authorized(req)) {
+    return NextResponse.json({ years: [], error: "Send Authorization: Bearer <LOOKABLE_WARM_TOKEN>" }, { status: 401, headers });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const now = new Date().getFullYear();
+  const years = parseYears(searchParams.get("years") ?? `${now - 5}-${now - 1}`);
+  if (!years.length) {
+    return NextResponse.json({ years: [], error: "Pass years like 2015-2019 or 2019,2021" }, { status: 400, headers });
+  }
+  if (years.length > MAX_YEARS) {
+    return NextResponse.json({ years: [], error: `At most ${MAX_YEARS} years per call; got ${years.length}` }, { status: 400, headers });
+  }
+  try {
+    // Lazy-import so import-time failures don't 500 the route.
+    const mod = await import("@/lib/fetchers/epa_aqi").catch(() => null);
+    if (!mod?.warmEpaIndex) {
+      return NextResponse.json({ years: [], error: "EPA fetcher unavailable" }, { status: 200, headers });
+    }
+    return NextResponse.json({ years: await mod.warmEpaIndex(years) }, { headers });
+  } catch (err: unknown) {
+    return NextResponse.json({ years: [], error: String((err as Error)?.message ?? err) }, { status: 200, headers });
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/geo/place/route.ts
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+
+/**
+ * City lookup for weather/air-quality queries: /api/geo/place?q=weather in Portland, ME
+ * → { place, candidates, ambiguous }; `place` is null when nothing matched.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const q = searchParams.get("q") ?? "";
+  try {
+    // Lazy-import so import-time failures don't 500 the route.
+    const mod = await import("@/lib/gazetteer").catch(() => null);
+    if (!mod?.resolvePlace) {
+      return NextResponse.json({ place: null, candidates: [], ambiguous: false }, { status: 200 });
+    }
+
+    const { place, candidates, ambiguous } = await mod.resolvePlace(q);
+    return NextResponse.json({ place: place ?? null, candidates, ambiguous });
+  } catch (err: unknown) {
+    // Never 500: the planner falls back to its default location
+    return NextResponse.json(
+      { place: null, candidates: [], ambiguous: false, error: String((err as Error)?.message ?? err) },
+      { status: 200 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/owid/search/route.ts
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+
+/** Keyword search over the bundled OWID Grapher chart list: /api/owid/search?q=electricity by source&limit=5 */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const q = searchParams.get("q") ?? "";
+  const limit = Math.min(25, Math.max(1, Number(searchParams.get("limit")) || 5));
+  try {
+    // Lazy-import so import-time failures don't 500 the route.
+    const mod = await import("@/lib/owidIndex").catch(() => null);
+    if (!mod?.searchOwidCharts) return NextResponse.json({ results: [] }, { status: 200 });
+
+    const results = mod.searchOwidCharts(q, limit);
+    return NextResponse.json({ results });
+  } catch (err: unknown) {
+    // Never 500: the planner treats an empty result as "no match"
+    return NextResponse.json(
+      { results: [], error: String((err as Error)?.message ?? err) },
+      { status: 200 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// app/api/render/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { bodyInput, checkRate, failureResponse, ParamsSchema, provenanceHeaders, requestError, resolvePlan, searchParamsInput } from "@/lib/dataApi";
+import { InvalidParamsError } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+/**
+ * Chart images without a browser, for slides, LMS pages and email digests.
+ *   GET  /api/render?q=CO2 emissions China since 1990&format=png&scale=2
+ *   GET  /api/render?metric=life_expectancy&country=JPN&width=800
+ *   POST /api/render { "metricId": "...", "params": { ... } } or { "query": "..." }
+ *   POST /api/render { "spec": { ...Vega-Lite... }, "provenance": { "source": "...", "url": "..." } }
+ * A plan runs like /api/data and is compiled with the page's compileSpec; every
+ * spec gets the browser's patches (patchAll). A posted spec must carry its data
+ * inline (`values`): nothing is loaded from a URL or file. SVG by default, PNG
+ * with `format=png` (or Accept: image/png); the provenance line is drawn as a
+ * footer. Errors are JSON, as in /api/data.
+ */
+
+const Size = z.coerce.number().int().min(100).max(4000);
+
+const RenderRequest = z
+  .object({
+    metricId: z.string().trim().min(1).optional(),
+    params: ParamsSchema.optional(),
+    query: z.string().trim().min(1).max(500, "must be at most 500 characters").optional(),
+    spec: z.record(z.string(), z.unknown()).optional(),
+    provenance: z.object({ source: z.string(), url: z.string(), license: z.string().optional(), note: z.string().optional() }).optional(),
+    format: z.enum(["svg", "png"]).optional(),
+    width: Size.optional(),
+    height: Size.optional(),
+    scale: z.coerce.number().min(0.5).max(4).optional(),
+  })
+  .refine((r) => [r.metricId, r.query, r.spec].filter(Boolean).length === 1, {
+    message: "send one of a metricId (with params), a free-text query or a Vega-Lite spec",
+    path: ["metricId"],
+  });
+
+async function handle(req: Request, input: unknown) {
+  const { headers, limited } = checkRate(req);
+  if (limited) return limited;
+
+  const parsed = RenderRequest.safeParse(input);
+  if (!parsed.success) return requestError(parsed.error, headers);
+  const body = parsed.data;
+  const fmt = body.format ?? (/\bimage\/png\b/.test(req.headers.get("accept") ?? "") ? "png" : "svg");
+
+  try {
+    // Lazy-import so import-time failures don't take the route down.
+    const { DEFAULT_SIZE, externalDataPaths, MAX_PIXELS, rasterize, renderSvg, RENDER_CONTENT_TYPE } = await import("@/lib/render");
+    const size = { width: body.width, height: body.height };
+    // rasterize checks the size actually drawn (footer, a spec's own width); this turns the obvious cases down before any work
+    if (fmt === "png" && (size.width ?? DEFAULT_SIZE.width) * (size.height ?? DEFAULT_SIZE.height) * (body.scale ?? 1) ** 2 > MAX_PIXELS) {
+      throw new InvalidParamsError("request", [{ param: "scale", message: `width × height × scale² must be at most ${MAX_PIXELS / 1e6} million pixels` }]);
+    }
+
+    let svg: string;
+    let name = "chart";
+    let extra: Record<string, string> = {};
+    if (body.spec) {
+      const urls = externalDataPaths(body.spec);
+      if (urls.length) {
+        throw new InvalidParamsError("request", urls.map((at) => ({ param: `spec.${at}`, message: "only inline data (values) is allowed" })));
+      }
+      try {
+        svg = await renderSvg(body.spec, { ...size, provenance: body.provenance });
+      } catch (err) {
+        // Vega-Lite rejected it (unknown mark, bad encoding...)
+        throw new InvalidParamsError("request", [{ param: "spec", message: String((err as Error)?.message ?? err) }]);
+      }
+    } else {
+      const { runPlan } = await import("@/lib/runSource");
+      const { specForPlan } = await import("@/lib/spec");
+      const plan = await resolvePlan(body);
+      const result = await runPlan(plan);
+      svg = await renderSvg(specForPlan(plan, result), { ...size, provenance: result.provenance });
+      name = plan.metricId;
+      extra = provenanceHeaders(result, plan);
+    }
+
+    // BodyInit takes ArrayBuffer-backed bytes only, hence the copy
+    const image = fmt === "png" ? new Uint8Array(await rasterize(svg, body.scale)) : svg;
+    return new NextResponse(image, {
+      headers: { ...headers, ...extra, "Content-Type": RENDER_CONTENT_TYPE[fmt], "Content-Disposition": `inline; filename="${name}.${fmt}"` },
+    });
+  } catch (err: unknown) {
+    return failureResponse(err, "api/render", headers);
+  }
+}
+
+export async function GET(req: Request) {
+  return handle(req, searchParamsInput(new URL(req.url).searchParams, ["format", "width", "height", "scale"]));
+}
+
+export async function POST(req: Request) {
+  // ?format=, ?width= ... work for POST too; a body that isn't a JSON object fails validation
+  return handle(req, await bodyInput(req));
+}
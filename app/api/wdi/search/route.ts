@@ -0,0 +1,25 @@
+// app/api/wdi/search/route.ts
+import { NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+
+/** Keyword search over the WDI indicator index: /api/wdi/search?q=literacy&limit=5 */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const q = searchParams.get("q") ?? "";
+  const limit = Math.min(25, Math.max(1, Number(searchParams.get("limit")) || 5));
+  try {
+    // Lazy-import so import-time failures don't 500 the route.
+    const mod = await import("@/lib/wdiIndex").catch(() => null);
+    if (!mod?.searchWdiIndicators) return NextResponse.json({ results: [] }, { status: 200 });
+
+    const results = await mod.searchWdiIndicators(q, limit);
+    return NextResponse.json({ results });
+  } catch (err: unknown) {
+    // Never 500: the planner treats an empty result as "no match"
+    return NextResponse.json(
+      { results: [], error: String((err as Error)?.message ?? err) },
+      { status: 200 }
+    );
+  }
+}
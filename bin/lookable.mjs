@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+// bin/lookable.mjs
+// Entry point for the `lookable` CLI (src/cli/lookable.ts). jiti loads the
+// TypeScript sources with the @/ alias; "server-only" resolves to Next's empty
+// module as it does in server bundles. Env files load like `next dev`
+// (.env, .env.local, ...), so BLS_API_KEY and the LOOKABLE_* knobs apply.
+
+import { fileURLToPath } from "node:url";
+import { createRequire } from "node:module";
+import { createJiti } from "jiti";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const require = createRequire(import.meta.url);
+
+const { loadEnvConfig } = require("@next/env");
+loadEnvConfig(root, false, { info: () => {}, error: console.error });
+
+const jiti = createJiti(import.meta.url, {
+  alias: {
+    "@": `${root}src`,
+    "server-only": require.resolve("next/dist/compiled/server-only/empty.js"),
+  },
+});
+
+const { main } = await jiti.import(`${root}src/cli/lookable.ts`);
+process.exitCode = await main(process.argv.slice(2));
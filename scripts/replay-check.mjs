@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+// scripts/replay-check.mjs
+// `npm test`: runs each CLI case in fixtures/checks.json with
+// LOOKABLE_FIXTURES=replay (no network, no response cache) and compares the
+// output with its expected file, or the exit code with the one the case names.
+// Add a case by recording it once (LOOKABLE_FIXTURES=record, see the README),
+// saving the CLI output under fixtures/expected/ and listing it here.
+
+import { spawnSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const fixtures = `${root}fixtures/`;
+const checks = JSON.parse(readFileSync(`${fixtures}checks.json`, "utf8"));
+
+let failed = 0;
+for (const check of checks) {
+  const run = spawnSync(process.execPath, [`${root}bin/lookable.mjs`, ...check.args], {
+    cwd: root,
+    encoding: "utf8",
+    timeout: 60_000,
+    env: { ...process.env, LOOKABLE_FIXTURES: "replay", LOOKABLE_FIXTURES_DIR: fixtures, LOOKABLE_CACHE: "off" },
+  });
+  const problems = [];
+  const wantExit = check.exitCode ?? 0;
+  if (run.status !== wantExit) problems.push(`exit code ${run.status ?? run.signal}, expected ${wantExit}\n${run.stderr.trim()}`);
+  if (check.expected && run.status === 0) {
+    const want = readFileSync(`${fixtures}${check.expected}`, "utf8");
+    if (run.stdout.trimEnd() !== want.trimEnd()) problems.push(`output differs from fixtures/${check.expected}:\n${run.stdout}`);
+  }
+  if (problems.length) {
+    failed++;
+    console.error(`✗ ${check.name}\n  ${problems.join("\n  ")}`);
+  } else {
+    console.log(`✓ ${check.name}`);
+  }
+}
+
+if (failed) {
+  console.error(`${failed} of ${checks.length} replay checks failed`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,184 @@
+// src/cli/lookable.ts
+// The `lookable` command: plan a query, run it through runSource and print the
+// rows as a table, CSV, JSON, NDJSON or the Vega-Lite spec the page would draw.
+// Run through bin/lookable.mjs (TypeScript + the @/ alias); the same planner,
+// lookups and data path as /api/data, so answers match the browser's.
+// Server-only (Node, reads env and writes files).
+
+import "server-only";
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { DataError, type DataErrorInfo } from "@/lib/errors";
+import { toCsv, toNdjson } from "@/lib/formats";
+import { plan as planQuery } from "@/lib/planner";
+import { SERVER_LOOKUPS } from "@/lib/planner.server";
+import { runPlan } from "@/lib/runSource";
+import type { RunResult } from "@/lib/schema";
+import { specForPlan } from "@/lib/spec";
+
+const CLI_FORMATS = ["table", "csv", "json", "ndjson", "vega-lite"] as const;
+type CliFormat = (typeof CLI_FORMATS)[number];
+
+type CliPlan = { metricId: string; params: Record<string, string | number>; chart?: Record<string, unknown>; note?: string };
+
+const USAGE = `Usage: lookable [options] "<query>"
+
+Plans a natural-language query (or runs --metric directly) and prints the data.
+
+Options:
+  -m, --metric <id>        run this catalog metric instead of the planner's choice
+  -p, --param <key=value>  set a plan param (repeatable; overrides the planner's)
+  -f, --format <format>    table (default), csv, json, ndjson or vega-lite
+  -o, --out <file>         write to a file instead of stdout
+      --explain            print the plan as JSON and stop (nothing is fetched)
+  -h, --help               show this help
+
+Examples:
+  lookable "GDP per capita India vs China since 2000"
+  lookable "Population Nigeria 1990-2015" --format csv --out population.csv
+  lookable --metric co2_emissions -p country=DEU,FRA -p start=1990 --format vega-lite
+  lookable "AQI Denver 2023" --explain`;
+
+/** Exit codes: 1 for a failed run, 2 for bad usage. */
+class UsageError extends Error {}
+
+function isCliFormat(x: unknown): x is CliFormat {
+  return typeof x === "string" && (CLI_FORMATS as readonly string[]).includes(x);
+}
+
+/** `key=value` pairs; numeric-looking values stay strings, the metric schemas coerce them. */
+function parseParams(pairs: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) throw new UsageError(`--param expects key=value, got "${pair}"`);
+    out[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+  }
+  return out;
+}
+
+async function buildPlan(query: string, metric: string | undefined, params: Record<string, string>): Promise<CliPlan> {
+  if (!query) {
+    if (!metric) throw new UsageError("give a query or --metric");
+    return { metricId: metric, params };
+  }
+  const p = await planQuery(query, SERVER_LOOKUPS);
+  return {
+    metricId: metric ?? p.metricId,
+    params: { ...(p.params ?? {}), ...params },
+    chart: p.chart,
+    ...(p.note ? { note: p.note } : {}),
+  };
+}
+
+/** Rows as aligned columns, with the title above and the provenance below. */
+function toTable(result: RunResult): string {
+  const withSeries = result.rows.some((r) => r.series != null);
+  const header = withSeries ? ["date", "series", "value"] : ["date", "value"];
+  const cells = result.rows.map((r) => (withSeries ? [r.date, r.series ?? "", String(r.value)] : [r.date, String(r.value)]));
+  const widths = header.map((h, i) => Math.max(h.length, ...cells.map((c) => c[i].length)));
+  const line = (c: string[]) => c.map((v, i) => (i === c.length - 1 ? v.padStart(widths[i]) : v.padEnd(widths[i]))).join("  ");
+  const p = result.provenance;
+  return [
+    ...(result.title ? [result.title, ""] : []),
+    line(header),
+    line(widths.map((w) => "-".repeat(w))),
+    ...cells.map(line),
+    "",
+    `${result.rows.length} rows (${result.granularity})${result.unit ? `, ${result.unit}` : ""}`,
+    `Source: ${p.source}${p.license ? ` (${p.license})` : ""} ${p.url}`,
+    ...(p.note ? [`Note: ${p.note}`] : []),
+  ].join("\n") + "\n";
+}
+
+function render(format: CliFormat, plan: CliPlan, result: RunResult): string {
+  switch (format) {
+    case "csv":
+      return toCsv(result);
+    case "ndjson":
+      return toNdjson(result);
+    case "json":
+      return JSON.stringify({ ...result, plan }, null, 2) + "\n";
+    case "vega-lite":
+      return JSON.stringify(specForPlan(plan, result), null, 2) + "\n";
+    default:
+      return toTable(result);
+  }
+}
+
+/** A DataError for the terminal: the message, each bad param, and the fixes as flags. */
+function describeError(info: DataErrorInfo): string {
+  const lines: string[] = [];
+  if (info.kind === "invalid_params") {
+    lines.push(`lookable: invalid parameters for ${info.context}:`);
+    for (const i of info.issues) lines.push(`  ${i.param}: ${i.message}${i.allowed?.length ? ` (valid: ${i.allowed.join(", ")})` : ""}`);
+  } else {
+    lines.push(`lookable: ${info.message}`);
+  }
+  for (const a of info.actions ?? []) {
+    lines.push(`  ${a.label}: ${Object.entries(a.params).map(([k, v]) => `--param ${k}=${v}`).join(" ")}`);
+  }
+  if (info.retry.retryable) lines.push(`  Try again${info.retry.afterSeconds ? ` in ${info.retry.afterSeconds}s` : ""}.`);
+  return lines.join("\n");
+}
+
+/** Runs the command for `argv` (without node and the script); resolves to the exit code. */
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        metric: { type: "string", short: "m" },
+        param: { type: "string", short: "p", multiple: true },
+        format: { type: "string", short: "f" },
+        out: { type: "string", short: "o" },
+        explain: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    if (values.help) {
+      process.stdout.write(USAGE + "\n");
+      return 0;
+    }
+    const format = values.format ?? "table";
+    if (!isCliFormat(format)) throw new UsageError(`--format must be one of ${CLI_FORMATS.join(", ")}`);
+
+    let plan: CliPlan;
+    try {
+      plan = await buildPlan(positionals.join(" ").trim(), values.metric, parseParams(values.param ?? []));
+    } catch (err) {
+      if (err instanceof UsageError) throw err;
+      // "Could not understand the query…"
+      process.stderr.write(`lookable: ${(err as Error)?.message ?? err}\n`);
+      return 1;
+    }
+
+    if (values.explain) {
+      process.stdout.write(JSON.stringify(plan, null, 2) + "\n");
+      return 0;
+    }
+    if (plan.note) process.stderr.write(`Note: ${plan.note}\n`);
+
+    const output = render(format, plan, await runPlan(plan));
+    if (values.out) {
+      await writeFile(values.out, output);
+      process.stderr.write(`Wrote ${values.out}\n`);
+    } else {
+      process.stdout.write(output);
+    }
+    return 0;
+  } catch (err) {
+    if (err instanceof DataError) {
+      process.stderr.write(describeError(err.info as DataErrorInfo) + "\n");
+      return 1;
+    }
+    // parseArgs rejects unknown flags and missing values with a TypeError
+    if (err instanceof UsageError || (err as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS")) {
+      process.stderr.write(`lookable: ${(err as Error).message}\n\n${USAGE}\n`);
+      return 2;
+    }
+    process.stderr.write(`lookable: ${(err as Error)?.stack ?? err}\n`);
+    return 1;
+  }
+}
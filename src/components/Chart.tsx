@@ -1,13 +1,27 @@
 "use client";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
+import { patchAll, prettify } from "@/lib/spec";
 
 // Type-only import to avoid server bundling
 type VLSpec = import("vega-embed").VisualizationSpec;
 type VegaView = import("vega-embed").Result["view"];
 
-export default function Chart({ spec, filename, prov, query }: { spec: VLSpec; filename?: string; prov?: { source: string; url: string; license?: string } | null; query?: string }) {
+export default function Chart({ spec, filename, prov, query, shareUrl }: { spec: VLSpec; filename?: string; prov?: { source: string; url: string; license?: string; note?: string } | null; query?: string; shareUrl?: string | null }) {
   const ref = useRef<HTMLDivElement>(null);
   const viewRef = useRef<VegaView | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  async function handleCopyLink() {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // No clipboard access (http, permissions): let the user copy it by hand
+      window.prompt("Copy this link to the chart:", shareUrl);
+    }
+  }
 
   function handleDownloadCsv() {
     try {
@@ -92,7 +106,12 @@ export default function Chart({ spec, filename, prov, query }: { spec: VLSpec; f
 
   return (
     <div>
-      <div style={{ display: "flex", justifyContent: "flex-end", marginBottom: 8 }}>
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginBottom: 8 }}>
+        {shareUrl && (
+          <button type="button" onClick={handleCopyLink} className="btn btn-sm" title="Copy a link that reopens this chart">
+            {copied ? "Link copied" : "Copy link"}
+          </button>
+        )}
         <button type="button" onClick={handleDownloadCsv} className="btn btn-sm">
           Download CSV
         </button>
@@ -108,118 +127,6 @@ function clone<T>(x: T): T {
     : JSON.parse(JSON.stringify(x));
 }
 
-function patchAll(s: VLSpec): VLSpec {
-  let out = patchYAxisTitle(s);
-  out = patchColorLegend(out);
-  return out;
-}
-
-/** Ensure y-axis has a friendly title (not "value"). Handles single & layered specs. */
-function patchYAxisTitle(s: VLSpec): VLSpec {
-  const anySpec: any = s as any;
-  const layers: any[] = Array.isArray(anySpec.layer) ? anySpec.layer : [anySpec];
-
-  for (const sp of layers) {
-    const y = sp?.encoding?.y;
-    const currentTitle: string | undefined =
-      (typeof y === "object" && y?.title) ||
-      (typeof y === "object" && typeof y.axis === "object" && y.axis?.title) ||
-      undefined;
-
-    // If already set to something other than "value", leave it alone
-    if (currentTitle && !/^(value|values?)$/i.test(currentTitle.trim())) continue;
-
-    const fromMeta =
-      sp?.meta?.yLabel ||
-      sp?.usermeta?.yLabel ||
-      anySpec?.meta?.yLabel ||
-      anySpec?.usermeta?.yLabel ||
-      (anySpec as any).yLabel;
-
-    const yField =
-      typeof y === "object" && typeof y.field === "string" ? y.field : undefined;
-
-    const fromField =
-      yField && !/^(value|values?)$/i.test(yField) ? prettify(yField) : undefined;
-
-    const fromTitle = inferFromTitle(anySpec?.title);
-
-    const candidate =
-      fromMeta || (fromField ?? fromTitle) || fromTitle || "Value";
-
-    // Write the title back
-    if (typeof y === "object") {
-      sp.encoding = {
-        ...sp.encoding,
-        y: { ...y, title: candidate, axis: { ...(y.axis ?? {}), title: candidate } },
-      };
-    } else {
-      sp.encoding = { ...(sp.encoding ?? {}), y: { title: candidate, axis: { title: candidate } } };
-    }
-  }
-
-  return anySpec;
-}
-
-/** If data has a 'series' field but encoding.color is missing, add color + legend. */
-function patchColorLegend(s: VLSpec): VLSpec {
-  const anySpec: any = s as any;
-  const layers: any[] = Array.isArray(anySpec.layer) ? anySpec.layer : [anySpec];
-
-  const RACES = new Set(["White", "Black", "Asian", "Hispanic"]);
-
-  const hasSeriesInValues = (specPart: any) => {
-    const vals = specPart?.data?.values;
-    if (Array.isArray(vals) && vals.length) {
-      // check a handful of rows to avoid scanning huge arrays
-      const sample = vals.slice(0, Math.min(8, vals.length));
-      return sample.some((r: any) => r && typeof r === "object" && "series" in r);
-    }
-    return false;
-  };
-
-  for (const sp of layers) {
-    const enc = sp?.encoding ?? {};
-    const hasColor = !!enc.color;
-    const hasSeriesField = !!(enc?.color?.field === "series" || enc?.detail?.field === "series" || enc?.tooltip?.some?.((t: any) => t.field === "series"));
-
-    if (!hasColor && (hasSeriesField || hasSeriesInValues(sp))) {
-      const sampleVals = Array.isArray(sp?.data?.values) ? sp.data.values.slice(0, 12) : [];
-      const seriesVals = new Set<string>();
-      for (const r of sampleVals) if (r?.series) seriesVals.add(String(r.series));
-      const allAreRaces = [...seriesVals].every(v => RACES.has(v));
-
-      sp.encoding = {
-        ...enc,
-        color: {
-          field: "series",
-          type: "nominal",
-          title: allAreRaces ? "Race" : "Series",
-        },
-        tooltip: enc.tooltip ?? [
-          { field: "series", type: "nominal", title: allAreRaces ? "Race" : "Series" },
-          { field: "date", type: "temporal", title: "Date" },
-          { field: "value", type: "quantitative", title: "Value" },
-        ],
-      };
-    }
-  }
-
-  return anySpec;
-}
-
-function prettify(field: string): string {
-  return field.replace(/[_\-.]+/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
-/** e.g., "US GDP per Capita" -> "GDP per Capita" */
-function inferFromTitle(title: any): string | undefined {
-  const t = typeof title === "string" ? title : title?.text;
-  if (!t) return undefined;
-  const m = t.match(/^(?:[A-Z]{2,3}\s+)?(.+)$/);
-  return m ? m[1] : undefined;
-}
-
 function extractRowsFromSpec(spec: any): any[] {
   if (!spec) return [];
   const out: any[] = [];
@@ -262,6 +169,7 @@ function toCsv(rows: any[], opts?: { title?: any; query?: string; provenance?: a
     if (opts?.title) metaLines.push(`# Title: ${String(opts.title)}`);
     if (opts?.provenance?.source) metaLines.push(`# Source: ${opts.provenance.source}`);
     if (opts?.provenance?.url) metaLines.push(`# URL: ${opts.provenance.url}`);
+    if (opts?.provenance?.note) metaLines.push(`# Note: ${opts.provenance.note}`);
     return metaLines.join("\n");
   }
 
@@ -296,6 +204,7 @@ function toCsv(rows: any[], opts?: { title?: any; query?: string; provenance?: a
   if (opts?.title) metaLines.push(`# Title: ${String(opts.title)}`);
   if (opts?.provenance?.source) metaLines.push(`# Source: ${opts.provenance.source}`);
   if (opts?.provenance?.url) metaLines.push(`# URL: ${opts.provenance.url}`);
+  if (opts?.provenance?.note) metaLines.push(`# Note: ${opts.provenance.note}`);
 
   const lines = [] as string[];
   if (metaLines.length) {
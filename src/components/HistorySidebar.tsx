@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  deleteEntry,
+  exportHistory,
+  getHistory,
+  importHistory,
+  renameEntry,
+  setPinned,
+  subscribe,
+  type HistoryEntry,
+} from "@/lib/state/history";
+
+/** The saved-charts library: re-open, rename, pin and delete past runs; import/export as JSON. */
+export default function HistorySidebar({ onOpen, busy }: { onOpen: (entry: HistoryEntry) => void; busy?: boolean }) {
+  // Empty until mounted: the library lives in this browser only (no hydration mismatch)
+  const [items, setItems] = useState<HistoryEntry[]>([]);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    setItems(getHistory());
+    const unsub = subscribe(() => setItems(getHistory()));
+    return () => { try { unsub(); } catch {} };
+  }, []);
+
+  function saveTitle() {
+    if (editing) renameEntry(editing.id, editing.title);
+    setEditing(null);
+  }
+
+  function handleExport() {
+    const blob = new Blob([exportHistory()], { type: "application/json;charset=utf-8;" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `lookable-library-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // the same file can be picked again
+    if (!file) return;
+    try {
+      const added = importHistory(await file.text());
+      setMessage(added ? `Imported ${added} chart${added === 1 ? "" : "s"}.` : "Nothing new in that file.");
+    } catch (err) {
+      setMessage((err as Error).message);
+    }
+  }
+
+  return (
+    <aside className="card history" aria-label="Your charts">
+      <div className="toolbar" style={{ justifyContent: "space-between", marginBottom: 8 }}>
+        <h2 style={{ fontSize: 16, fontWeight: 600 }}>Your charts</h2>
+        <div className="toolbar" style={{ gap: 6 }}>
+          <button type="button" className="btn btn-sm" onClick={() => fileRef.current?.click()} title="Add charts from an exported library (JSON)">
+            Import
+          </button>
+          <button type="button" className="btn btn-sm" onClick={handleExport} disabled={!items.length} title="Save the library as a JSON file">
+            Export
+          </button>
+          <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+        </div>
+      </div>
+      {message && <p className="provenance" style={{ marginBottom: 8 }}>{message}</p>}
+
+      {items.length ? (
+        <ul className="history-list">
+          {items.map((e) => (
+            <li key={e.id} className="history-item">
+              {editing?.id === e.id ? (
+                <input
+                  className="input"
+                  aria-label="Chart name"
+                  style={{ height: 32 }}
+                  value={editing.title}
+                  autoFocus
+                  onChange={(ev) => setEditing({ id: e.id, title: ev.target.value })}
+                  onBlur={saveTitle}
+                  onKeyDown={(ev) => {
+                    if (ev.key === "Enter") saveTitle();
+                    if (ev.key === "Escape") setEditing(null);
+                  }}
+                />
+              ) : (
+                <button type="button" className="history-open" disabled={busy} onClick={() => onOpen(e)} title={`Re-run: ${e.query}`}>
+                  {e.pinned ? "📌 " : null}
+                  {e.title}
+                </button>
+              )}
+              <div className="provenance">
+                {e.provenance.source} · {new Date(e.ranAt).toLocaleString()}
+              </div>
+              <div className="history-actions">
+                <button type="button" onClick={() => setEditing({ id: e.id, title: e.title })}>Rename</button>
+                <button type="button" onClick={() => setPinned(e.id, !e.pinned)}>{e.pinned ? "Unpin" : "Pin"}</button>
+                <button type="button" onClick={() => deleteEntry(e.id)} aria-label={`Delete ${e.title}`}>Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="provenance">Charts you make are kept here, in this browser only.</p>
+      )}
+    </aside>
+  );
+}
@@ -1,6 +1,9 @@
-export type AllowedSource = "worldbank" | "openmeteo" | "owid" | "urban" | "bls" | "epa_aqi";
+import { SOURCES, type SourceId } from "@/lib/sources";
 
-export const ALLOWED_SOURCES: AllowedSource[] = ["worldbank", "openmeteo", "owid", "urban", "bls", "epa_aqi"];
+// Every registered source (src/lib/sources) is allowed
+export type AllowedSource = SourceId;
+
+export const ALLOWED_SOURCES: AllowedSource[] = SOURCES.map((s) => s.id);
 
 export function isAllowedSource(s: string): s is AllowedSource {
   return (ALLOWED_SOURCES as string[]).includes(s);
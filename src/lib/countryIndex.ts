@@ -1,12 +1,24 @@
 // src/lib/countryIndex.ts
 // Build regex → ISO3 pairs from OWID's country index, with caching + common synonyms.
+// Also recognizes World Bank aggregates (regions, income and lending groups).
 // Server-only (do not import in client components).
 
 import "server-only";
+import { AGGREGATES, aggregateByCode, isAggregateCode, toWdiCode, type GeoKind } from "@/lib/geoAggregates";
+import { cachedFetch } from "@/lib/httpCache";
 
 type CountryIndex = Array<[RegExp, string]>;
 
+/** A typed geo hit: a sovereign country or a World Bank aggregate. */
+export type GeoMatch = { code: string; name: string; kind: GeoKind };
+
 let CACHE: Promise<CountryIndex> | null = null;
+// A fallback index (the OWID list failed to load) is rebuilt after this time
+let RETRY_AT = 0;
+const FALLBACK_TTL_MS = 5 * 60 * 1000;
+
+// code → display name (filled from OWID, aggregates and the fallback table)
+const NAMES = new Map<string, string>();
 
 const OWID_COUNTRIES_URL = "https://ourworldindata.org/owid-countries-data.json";
 
@@ -25,7 +37,8 @@ function stripAccents(s: string) {
 }
 
 // Build a tolerant regex for a country name.
-// - case-insensitive
+// - case-insensitive (except all-caps abbreviations like "US", "UK", "UAE",
+//   so the pronoun "us" isn't read as a country)
 // - allow flexible whitespace / hyphens / punctuation
 function nameToRegex(name: string): RegExp {
   const make = (x: string) =>
@@ -38,7 +51,8 @@ function nameToRegex(name: string): RegExp {
   const folded = make(stripAccents(name));
 
   // Match either the original or the folded spelling
-  return new RegExp(`\\b(?:${orig}|${folded})\\b`, "i");
+  const flags = /^[A-Z][A-Z.]{1,5}$/.test(name) ? "" : "i";
+  return new RegExp(`\\b(?:${orig}|${folded})\\b`, flags);
 }
 
 // Some widely-used alternative names OWID doesn't always surface as aliases
@@ -98,31 +112,52 @@ const FALLBACK_PAIRS: CountryIndex = [
   [/\b(?:iran|irn)\b/i, "IRN"],
 ];
 
+// Aggregate names/aliases + code tokens (e.g. "Sub-Saharan Africa", "OECD", "SSF")
+function aggregatePairs(): CountryIndex {
+  const pairs: CountryIndex = [];
+  for (const a of AGGREGATES) {
+    NAMES.set(a.code, a.name);
+    pairs.push([nameToRegex(a.name), a.code]);
+    pairs.push([new RegExp(`\\b${esc(a.code)}\\b`), a.code]);
+    for (const alt of a.aliases) pairs.push([nameToRegex(alt), a.code]);
+  }
+  return pairs;
+}
+
+// Uppercase tokens that look like ISO3 codes but never are
+const NOT_ISO3 = new Set(["GDP", "GNI", "CPI", "PPP", "AQI", "BLS", "EPA", "USD", "WDI", "CO2", "ILO", "LCU"]);
+
 // --- data access ---
 
 async function fetchOwidCountriesJson(): Promise<Record<string, { name: string }>> {
-  const res = await fetch(OWID_COUNTRIES_URL, { cache: "force-cache", next: { revalidate: 86400 } });
+  const res = await cachedFetch("owid", OWID_COUNTRIES_URL);
   if (!res.ok) throw new Error(`OWID countries fetch failed: ${res.status}`);
   return res.json();
 }
 
 export async function getOwidCountryPairs(): Promise<CountryIndex> {
-  if (CACHE) return CACHE;
+  if (CACHE && !(RETRY_AT && Date.now() >= RETRY_AT)) return CACHE;
+  RETRY_AT = 0;
   CACHE = (async () => {
     try {
       const json = await fetchOwidCountriesJson();
       const pairs: CountryIndex = [];
 
       // json keys are ISO3 codes: { "JPN": { name: "Japan", ... }, ... }
-      for (const [iso3, meta] of Object.entries(json)) {
+      for (const [key, meta] of Object.entries(json)) {
         const name = meta?.name?.trim();
         if (!name) continue;
+        // OWID-only codes (OWID_WRL, OWID_KOS) map to their WDI equivalents
+        const iso3 = toWdiCode(key);
+        // Aggregates are indexed from our own table below
+        if (isAggregateCode(iso3)) continue;
+        NAMES.set(iso3, name);
 
         // Official name
         pairs.push([nameToRegex(name), iso3]);
 
-        // ISO3 token
-        pairs.push([new RegExp(`\\b${esc(iso3)}\\b`, "i"), iso3]);
+        // ISO3 token (case-sensitive so words like "per", "and", "can" aren't read as codes)
+        pairs.push([new RegExp(`\\b${esc(iso3)}\\b`), iso3]);
 
         // Extras
         const extras = EXTRA_SYNONYMS[iso3];
@@ -133,6 +168,8 @@ export async function getOwidCountryPairs(): Promise<CountryIndex> {
         }
       }
 
+      pairs.push(...aggregatePairs());
+
       // De-dup
       const seen = new Set<string>();
       const dedup: CountryIndex = [];
@@ -144,22 +181,71 @@ export async function getOwidCountryPairs(): Promise<CountryIndex> {
         }
       }
       return dedup;
-    } catch (err) {
-      console.error("countryIndex: falling back; reason:", err);
-      // Fallback so we don't 500 if OWID is unreachable
-      return FALLBACK_PAIRS;
+    } catch {
+      // Fallback so we don't 500 if OWID is unreachable; the full list is tried again later
+      RETRY_AT = Date.now() + FALLBACK_TTL_MS;
+      return [...FALLBACK_PAIRS, ...aggregatePairs()];
     }
   })();
   return CACHE;
 }
 
-/** Try to find an ISO3 code anywhere in free-text query using the OWID index. */
-export async function iso3FromQuery(query: string): Promise<string | undefined> {
+/** Strip phrases that contain place-like words but name a source ("World Bank", "Our World in Data"). */
+function maskSourceNames(s: string): string {
+  return s.replace(/\b(?:world\s+bank|our\s+world\s+in\s+data)\b/gi, (m) => " ".repeat(m.length));
+}
+
+/**
+ * Find every country or aggregate mentioned in a free-text query, in the order
+ * they appear ("India vs China vs Brazil" → IND, CHN, BRA). Overlapping matches
+ * keep the longest name, so "Papua New Guinea" doesn't also yield Guinea and
+ * "North America" doesn't also yield the USA.
+ */
+export async function geoFromQuery(query: string): Promise<GeoMatch[]> {
   const pairs = await getOwidCountryPairs();
-  const s = String(query || "");
+  const s = maskSourceNames(String(query || ""));
+
+  const hits: Array<{ start: number; end: number; code: string }> = [];
   for (const [re, code] of pairs) {
-    if (re.test(s)) return code;
+    const g = new RegExp(re.source, re.flags.includes("g") ? re.flags : re.flags + "g");
+    for (const m of s.matchAll(g)) {
+      if (m.index == null || !m[0]) continue;
+      hits.push({ start: m.index, end: m.index + m[0].length, code });
+    }
+  }
+
+  // Longest first, then drop anything overlapping an accepted span
+  hits.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+  const taken: typeof hits = [];
+  for (const h of hits) {
+    if (taken.some((t) => h.start < t.end && t.start < h.end)) continue;
+    taken.push(h);
+  }
+  taken.sort((a, b) => a.start - b.start);
+
+  const out: GeoMatch[] = [];
+  for (const t of taken) {
+    if (out.some((g) => g.code === t.code)) continue;
+    const agg = aggregateByCode(t.code);
+    out.push({
+      code: t.code,
+      name: agg?.name ?? NAMES.get(t.code) ?? t.code,
+      kind: agg ? "aggregate" : "country",
+    });
   }
-  const m = s.match(/\b[A-Z]{3}\b/i);
-  return m ? m[0].toUpperCase() : undefined;
+  return out;
+}
+
+/** Every ISO3/aggregate code mentioned in the query, in order. */
+export async function iso3AllFromQuery(query: string): Promise<string[]> {
+  return (await geoFromQuery(query)).map((g) => g.code);
+}
+
+/** Try to find an ISO3 code anywhere in free-text query using the OWID index. */
+export async function iso3FromQuery(query: string): Promise<string | undefined> {
+  const [first] = await iso3AllFromQuery(query);
+  if (first) return first;
+  // Last resort: an uppercase three-letter token that isn't a common acronym
+  const m = String(query || "").match(/\b[A-Z]{3}\b/g)?.find((t) => !NOT_ISO3.has(t));
+  return m;
 }
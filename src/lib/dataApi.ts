@@ -0,0 +1,145 @@
+// src/lib/dataApi.ts
+// Plumbing shared by the public routes (/api/data, /api/render): the per-client
+// rate limit, turning a request into a plan (free text through the planner, or
+// a metricId with params), and DataErrors as JSON with a matching HTTP status.
+// Server-only (do not import in client components).
+
+import "server-only";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { DataError, InvalidParamsError, type DataErrorInfo, type DataErrorKind, type UpstreamErrorInfo } from "@/lib/errors";
+import { clientKey, rateLimiter, type RateLimitResult } from "@/lib/rateLimit";
+import type { RunResult } from "@/lib/schema";
+
+// One budget per client across the public routes
+const LIMITER = rateLimiter();
+
+export const ParamsSchema = z.record(z.string(), z.union([z.string(), z.number()]));
+
+/** The plan a request ran: the planner's for free text, else the caller's. */
+export type ApiPlan = { metricId: string; params: Record<string, string | number>; chart?: Record<string, unknown>; note?: string };
+
+const STATUS: Record<DataErrorKind, number> = {
+  invalid_params: 400,
+  unknown_location: 400,
+  no_data: 404,
+  upstream_unavailable: 502,
+  rate_limited: 503,  // the upstream's limit, not ours (ours is a 429)
+};
+
+/** Header values must be Latin-1; anything else (e.g. "OWID CO₂") is percent-encoded. */
+const headerValue = (v: unknown) => {
+  const s = String(v);
+  return /^[\x20-\x7e]*$/.test(s) ? s : encodeURIComponent(s);
+};
+
+function rateHeaders(rate: RateLimitResult): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(rate.limit),
+    "X-RateLimit-Remaining": String(rate.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(rate.resetAt / 1000)),
+  };
+}
+
+export function errorResponse(info: DataErrorInfo, status: number, headers: Record<string, string>) {
+  const retry: Record<string, string> = info.retry.afterSeconds ? { "Retry-After": String(info.retry.afterSeconds) } : {};
+  return NextResponse.json({ error: info }, { status, headers: { ...headers, ...retry } });
+}
+
+/**
+ * Counts the request against its client's budget: the X-RateLimit-* headers to
+ * send back, plus the 429 response when the budget is spent.
+ */
+export function checkRate(req: Request): { headers: Record<string, string>; limited?: NextResponse } {
+  const rate = LIMITER.check(clientKey(req));
+  const headers = rateHeaders(rate);
+  if (rate.ok) return { headers };
+  const afterSeconds = Math.max(1, Math.ceil((rate.resetAt - Date.now()) / 1000));
+  const info: UpstreamErrorInfo = {
+    kind: "rate_limited",
+    context: "Lookable data API",
+    message: `Too many requests: at most ${rate.limit} per window. Try again in ${afterSeconds}s.`,
+    retry: { retryable: true, afterSeconds },
+  };
+  return { headers, limited: errorResponse(info, 429, headers) };
+}
+
+/** A 400 for a request body or query string that failed its zod schema. */
+export function requestError(error: z.ZodError, headers: Record<string, string>) {
+  const issues = error.issues.map((i) => ({ param: i.path.map(String).join(".") || "request", message: i.message }));
+  return errorResponse(new InvalidParamsError("request", issues).toJSON(), 400, headers);
+}
+
+/**
+ * GET query keys as a request: `q` / `query`, `metric` / `metricId`, the keys
+ * in `reserved` as themselves, and every other key as a plan param.
+ */
+export function searchParamsInput(searchParams: URLSearchParams, reserved: readonly string[]) {
+  const own = new Set(["q", "query", "metric", "metricId", ...reserved]);
+  const params: Record<string, string> = {};
+  for (const [k, v] of searchParams) if (!own.has(k)) params[k] = v;
+  const metricId = searchParams.get("metric") ?? searchParams.get("metricId") ?? undefined;
+  const query = searchParams.get("q") ?? searchParams.get("query") ?? undefined;
+  const rest = Object.fromEntries(reserved.flatMap((k) => (searchParams.has(k) ? [[k, searchParams.get(k)]] : [])));
+  return { metricId, query, ...rest, ...(metricId ? { params } : {}) };
+}
+
+/** A POST body merged with its query string (`?format=` works for POST too); non-objects pass through to fail validation. */
+export async function bodyInput(req: Request) {
+  const extra = Object.fromEntries(new URL(req.url).searchParams);
+  const body: unknown = await req.json().catch(() => undefined);
+  const isObject = !!body && typeof body === "object" && !Array.isArray(body);
+  return isObject ? { ...extra, ...body } : body;
+}
+
+/**
+ * The plan for a request: the planner's (server-side lookups) for free text,
+ * else the metricId and params as given. A query the planner can't read is an
+ * InvalidParamsError on `query`.
+ */
+export async function resolvePlan(request: { query?: string; metricId?: string; params?: Record<string, string | number> }): Promise<ApiPlan> {
+  if (!request.query) return { metricId: request.metricId!, params: request.params ?? {} };
+  const { plan } = await import("@/lib/planner");
+  const { SERVER_LOOKUPS } = await import("@/lib/planner.server");
+  try {
+    const p = await plan(request.query, SERVER_LOOKUPS);
+    return { metricId: p.metricId, params: (p.params ?? {}) as Record<string, string | number>, chart: p.chart, ...(p.note ? { note: p.note } : {}) };
+  } catch (err) {
+    // "Could not understand the query…": the query is the bad parameter
+    throw new InvalidParamsError("query", [{ param: "query", message: String((err as Error)?.message ?? err), received: request.query }]);
+  }
+}
+
+/** Provenance, granularity and the plan as X-Lookable-* headers. */
+export function provenanceHeaders(result: RunResult, plan: ApiPlan) {
+  const p = result.provenance;
+  const out: Record<string, string> = {
+    "X-Lookable-Metric": plan.metricId,
+    "X-Lookable-Params": headerValue(JSON.stringify(plan.params)),
+    "X-Lookable-Granularity": result.granularity,
+    "X-Lookable-Source": headerValue(p.source),
+    "X-Lookable-Source-Url": headerValue(p.url),
+  };
+  if (p.license) out["X-Lookable-License"] = headerValue(p.license);
+  if (result.unit) out["X-Lookable-Unit"] = headerValue(result.unit);
+  if (p.note ?? plan.note) out["X-Lookable-Note"] = headerValue(p.note ?? plan.note);
+  if (p.cache) out["X-Lookable-Cache"] = `hits=${p.cache.hits}; misses=${p.cache.misses}`;
+  return out;
+}
+
+/** A DataError as its status; anything else is logged and answered with a 500. */
+export function failureResponse(err: unknown, route: string, headers: Record<string, string>) {
+  if (err instanceof DataError) {
+    const info: DataErrorInfo = err.info;
+    return errorResponse(info, STATUS[info.kind], headers);
+  }
+  console.error(`${route} error:`, (err as Error)?.stack || err);
+  // A fetcher bug or a malformed upstream payload (ResultValidationError)
+  const info: UpstreamErrorInfo = {
+    kind: "upstream_unavailable",
+    context: "Lookable data API",
+    message: String((err as Error)?.message ?? err),
+    retry: { retryable: false },
+  };
+  return errorResponse(info, 500, headers);
+}
@@ -0,0 +1,192 @@
+// src/lib/errors.ts
+// Error taxonomy for data runs. Fetchers, runSource and checkParams throw a
+// DataError of one of five kinds (upstream unavailable, rate limited, no data
+// for the range, unknown location, invalid parameters); the server action returns
+// its plain-JSON info so the kind, retry hint and recovery actions survive the
+// boundary, and the page offers those actions as buttons.
+// Pure: safe to import on client and server.
+
+import type { Params, ParamValue } from "@/lib/sources/define";
+
+export type DataErrorKind = "upstream_unavailable" | "rate_limited" | "no_data" | "unknown_location" | "invalid_params";
+
+/** Whether running the same plan again may work, and how long to wait first. */
+export type RetryHint = { retryable: boolean; afterSeconds?: number };
+
+/** A one-click fix: run the same metric again with `params` merged over the plan's. */
+export type RecoveryAction = { label: string; params: Params };
+
+type InfoBase = {
+  context: string;  // the source label or metric id the error is about
+  message: string;
+  retry: RetryHint;
+  actions?: RecoveryAction[];
+};
+
+export type ParamIssue = {
+  param: string;
+  message: string;
+  received?: ParamValue;
+  allowed?: string[];  // valid alternatives (enum values, year range, state codes...)
+};
+
+export type UpstreamErrorInfo = InfoBase & { kind: "upstream_unavailable" | "rate_limited"; status?: number };
+export type NoDataInfo = InfoBase & { kind: "no_data"; available?: YearRange };
+export type UnknownLocationInfo = InfoBase & { kind: "unknown_location"; param: string; received: string; suggestions: string[] };
+export type InvalidParamsInfo = InfoBase & { kind: "invalid_params"; issues: ParamIssue[] };
+
+/** What crosses the server-action boundary (plain JSON). */
+export type DataErrorInfo = UpstreamErrorInfo | NoDataInfo | UnknownLocationInfo | InvalidParamsInfo;
+
+export type YearRange = { start: number; end: number };
+
+/** A run that failed for a reason the user can act on; `info` is its serializable form. */
+export class DataError<I extends DataErrorInfo = DataErrorInfo> extends Error {
+  constructor(readonly info: I) {
+    super(info.message);
+    this.name = "DataError";
+  }
+
+  get kind(): I["kind"] {
+    return this.info.kind;
+  }
+
+  toJSON(): I {
+    return this.info;
+  }
+}
+
+export function isDataErrorInfo(x: unknown): x is DataErrorInfo {
+  const kind = !!x && typeof x === "object" ? (x as { kind?: unknown }).kind : undefined;
+  return kind === "upstream_unavailable" || kind === "rate_limited" || kind === "no_data" || kind === "unknown_location" || kind === "invalid_params";
+}
+
+/* ---------------- upstream failures ---------------- */
+
+export class UpstreamError extends DataError<UpstreamErrorInfo> {
+  constructor(info: Omit<UpstreamErrorInfo, "retry"> & { retry?: RetryHint }) {
+    super({ ...info, retry: info.retry ?? { retryable: info.kind === "rate_limited" } });
+    this.name = "UpstreamError";
+  }
+}
+
+/** Seconds from a Retry-After header (delta seconds or an HTTP date). */
+function retryAfter(res: Response): number | undefined {
+  const raw = res.headers.get("retry-after");
+  if (!raw) return undefined;
+  const secs = /^\d+$/.test(raw.trim()) ? Number(raw) : (Date.parse(raw) - Date.now()) / 1000;
+  return Number.isFinite(secs) && secs > 0 ? Math.ceil(secs) : undefined;
+}
+
+/**
+ * The error for a non-2xx upstream response: 429 is rate limiting, 5xx/408 a
+ * (retryable) outage, anything else a rejected request.
+ */
+export function upstreamError(context: string, res: Response): UpstreamError {
+  const status = res.status;
+  const after = retryAfter(res);
+  if (status === 429) {
+    return new UpstreamError({
+      kind: "rate_limited",
+      context,
+      status,
+      message: `${context} is limiting requests right now (HTTP 429)`,
+      retry: { retryable: true, afterSeconds: after ?? 60 },
+    });
+  }
+  const down = status >= 500 || status === 408;
+  return new UpstreamError({
+    kind: "upstream_unavailable",
+    context,
+    status,
+    message: down ? `${context} is unavailable right now (HTTP ${status})` : `${context} rejected the request (HTTP ${status})`,
+    retry: down ? { retryable: true, ...(after ? { afterSeconds: after } : {}) } : { retryable: false },
+  });
+}
+
+/* ---------------- no data ---------------- */
+
+export class NoDataError extends DataError<NoDataInfo> {
+  constructor(context: string, message: string, opts: { available?: YearRange; actions?: RecoveryAction[] } = {}) {
+    super({ kind: "no_data", context, message, retry: { retryable: false }, ...opts });
+    this.name = "NoDataError";
+  }
+}
+
+// Shortest window a no-data action offers, in years
+const MIN_WINDOW = 10;
+
+/**
+ * No rows for `requested` although the data covers `available`: the message
+ * says where the data ends (or starts) and the action re-runs a window of the
+ * same length (at least MIN_WINDOW years) inside it ("data ends in 2022 — show
+ * 2012–2022?").
+ */
+export function noDataForRange(context: string, requested: YearRange, available: YearRange): NoDataError {
+  const span = Math.max(requested.end - requested.start, MIN_WINDOW);
+  let message: string;
+  let window: YearRange;
+  if (requested.start > available.end) {
+    message = `No data for ${requested.start}–${requested.end}: the data ends in ${available.end}`;
+    window = { start: Math.max(available.start, available.end - span), end: available.end };
+  } else if (requested.end < available.start) {
+    message = `No data for ${requested.start}–${requested.end}: the data starts in ${available.start}`;
+    window = { start: available.start, end: Math.min(available.end, available.start + span) };
+  } else {
+    message = `No data for ${requested.start}–${requested.end} (available: ${available.start}–${available.end})`;
+    window = available;
+  }
+  return new NoDataError(context, message, {
+    available,
+    actions: [{ label: `Show ${window.start}–${window.end}`, params: { start: window.start, end: window.end } }],
+  });
+}
+
+/* ---------------- unknown location ---------------- */
+
+export class UnknownLocationError extends DataError<UnknownLocationInfo> {
+  constructor(
+    context: string,
+    param: string,
+    received: string,
+    opts: { message?: string; suggestions?: Array<{ label: string; value: string }> } = {}
+  ) {
+    const suggestions = opts.suggestions ?? [];
+    super({
+      kind: "unknown_location",
+      context,
+      param,
+      received,
+      message: opts.message ?? `${context} doesn't know the location "${received}"`,
+      retry: { retryable: false },
+      suggestions: suggestions.map((s) => s.label),
+      ...(suggestions.length ? { actions: suggestions.map((s) => ({ label: `Use ${s.label}`, params: { [param]: s.value } })) } : {}),
+    });
+    this.name = "UnknownLocationError";
+  }
+}
+
+/* ---------------- invalid parameters ---------------- */
+
+const MAX_SHOWN = 8;
+
+function describeIssue(i: ParamIssue): string {
+  const allowed = i.allowed?.length
+    ? ` (valid: ${i.allowed.slice(0, MAX_SHOWN).join(", ")}${i.allowed.length > MAX_SHOWN ? ", …" : ""})`
+    : "";
+  return `${i.param}: ${i.message}${allowed}`;
+}
+
+/** Plan params that don't fit the metric's schema; `issues` lists every problem found. */
+export class InvalidParamsError extends DataError<InvalidParamsInfo> {
+  constructor(readonly context: string, readonly issues: ParamIssue[]) {
+    super({
+      kind: "invalid_params",
+      context,
+      message: `Invalid parameters for ${context}: ${issues.map(describeIssue).join("; ")}`,
+      retry: { retryable: false },
+      issues,
+    });
+    this.name = "InvalidParamsError";
+  }
+}
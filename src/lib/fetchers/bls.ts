@@ -1,6 +1,10 @@
-// bls.ts — CPS unemployment by race + NL parsing + datasets for your charts.
+// bls.ts — BLS Public API: any series by ID (plus a curated registry), CPS unemployment by race,
+// NL parsing + datasets for your charts.
 
 import { z } from "zod";
+import REGISTRY from "@/lib/data/bls_series.json";
+import { cachedFetch } from "@/lib/httpCache";
+import { UpstreamError, upstreamError } from "@/lib/errors";
 
 /* =========================
  * Types & Schemas
@@ -14,13 +18,88 @@ export const BlsRaceParams = z.object({
   startYear: z.number().int().default(1972),
   endYear: z.number().int().default(new Date().getFullYear()),
   seasonallyAdjusted: z.boolean().default(true),
+  frequency: z.enum(["monthly", "quarterly", "annual"]).default("monthly"),
 });
 export type BlsRaceParams = z.infer<typeof BlsRaceParams>;
 
+export type BlsFrequency = "monthly" | "quarterly" | "annual";
+
 export type MonthlyRow = { date: string; value: number; series: string; unit: "%" };
-export type AnnualRow = { year: number; value: number; series: string; unit: "%" };
 
-export type FetchResult = { title: string; unit: string; rows: MonthlyRow[]; provenance: { source: string; url: string; license?: string; note?: string; requestBody?: any } };
+export type SeriesRow = { date: string; value: number; series: string };
+
+export type FetchResult<R = MonthlyRow> = { title: string; unit: string; rows: R[]; provenance: { source: string; url: string; license?: string; note?: string; requestBody?: any } };
+
+export const BlsSeriesParams = z.object({
+  // Registry keys ("cpi_core"), group names ("sex", "age", "education", "race") or raw BLS series IDs
+  series: z.array(z.string().min(1)).min(1),
+  startYear: z.number().int().default(2000),
+  endYear: z.number().int().default(new Date().getFullYear()),
+  // Omitted: registry series default to SA and raw IDs are used as given
+  seasonallyAdjusted: z.boolean().optional(),
+  frequency: z.enum(["monthly", "quarterly", "annual"]).default("monthly"),
+});
+export type BlsSeriesParams = z.infer<typeof BlsSeriesParams>;
+
+/* =========================
+ * Registry (src/lib/data/bls_series.json)
+ * ========================= */
+export type BlsSeriesInfo = {
+  key: string;    // e.g. "cpi_core"
+  name: string;   // full title, used when charting one series
+  label: string;  // short series label, used when charting several
+  unit: string;
+  group?: string; // "sex" | "age" | "education" | "race"
+  sa?: string;    // seasonally adjusted series ID
+  nsa?: string;   // not seasonally adjusted series ID
+};
+
+export const BLS_SERIES = REGISTRY as BlsSeriesInfo[];
+
+export const BLS_GROUP_TITLES: Record<string, string> = {
+  sex: "Unemployment rate by sex",
+  age: "Unemployment rate by age",
+  education: "Unemployment rate by education (25 and over)",
+  race: "Unemployment rate by race",
+};
+
+const isSeriesId = (s: string) => /^[A-Z]{2}[A-Z0-9]{6,}$/i.test(s);
+
+type ResolvedSeries = { id: string; info?: BlsSeriesInfo };
+
+// SA ↔ NSA for raw IDs of the big programs: CPS (LNS1…/LNU0…), CES (CES/CEU), CPI (CUSR/CUUR)
+function adjustRawId(id: string, sa: boolean): string {
+  if (sa) return id.replace(/^LNU0/, "LNS1").replace(/^CEU/, "CES").replace(/^CUUR/, "CUSR");
+  return id.replace(/^LNS1/, "LNU0").replace(/^CES/, "CEU").replace(/^CUSR/, "CUUR");
+}
+
+/**
+ * Registry keys, group names and raw IDs → series IDs for the requested
+ * adjustment (registry series default to SA; raw IDs only change when asked).
+ */
+function resolveSeries(wanted: string[], adjusted?: boolean): ResolvedSeries[] {
+  const sa = adjusted ?? true;
+  const out: ResolvedSeries[] = [];
+  const add = (r: ResolvedSeries) => { if (!out.some((o) => o.id === r.id)) out.push(r); };
+  for (const raw of wanted) {
+    const w = raw.trim();
+    const key = w.toLowerCase();
+    const byKey = BLS_SERIES.find((e) => e.key === key);
+    const group = BLS_SERIES.filter((e) => e.group === key);
+    const entries = byKey ? [byKey] : group;
+    if (entries.length) {
+      for (const info of entries) add({ id: (sa ? info.sa ?? info.nsa : info.nsa ?? info.sa)!, info });
+      continue;
+    }
+    if (isSeriesId(w)) {
+      const id = adjusted === undefined ? w.toUpperCase() : adjustRawId(w.toUpperCase(), adjusted);
+      add({ id, info: BLS_SERIES.find((e) => e.sa === id || e.nsa === id) });
+      continue;
+    }
+    throw new Error(`BLS: unknown series "${w}" (use a BLS series ID or one of: ${BLS_SERIES.map((e) => e.key).join(", ")})`);
+  }
+  return out;
+}
 
 /* =========================
  * Series IDs / helpers
@@ -51,101 +130,216 @@ const raceFromId = (seriesId: string, sa: boolean): Race | string => {
  * ========================= */
 async function fetchBlsSeries(seriesIds: string[], startYear: number, endYear: number) {
   const body: any = { seriesid: seriesIds, startyear: String(startYear), endyear: String(endYear) };
-  if (process?.env?.BLS_API_KEY) body.registrationkey = process.env.BLS_API_KEY;
+  // Catalog (series titles) is only served to registered keys
+  if (process?.env?.BLS_API_KEY) { body.registrationkey = process.env.BLS_API_KEY; body.catalog = true; }
 
-  const resp = await fetch(BLS_URL, {
+  const resp = await cachedFetch("bls", BLS_URL, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(body),
-    next: { revalidate: 86400 },
   });
-  if (!resp.ok) throw new Error(`BLS HTTP ${resp.status}`);
+  if (!resp.ok) throw upstreamError("BLS", resp);
   const json = await resp.json();
   if (json?.status && json.status !== "REQUEST_SUCCEEDED") {
-    throw new Error(`BLS error: ${json?.status} | ${JSON.stringify(json?.message ?? json)}`);
+    const detail = [json?.message ?? []].flat().join(" ");
+    // The daily quota comes back as a failed request (HTTP 200), not a 429
+    if (/threshold|limit/i.test(detail)) {
+      throw new UpstreamError({
+        kind: "rate_limited",
+        context: "BLS",
+        message: `BLS daily request limit reached${process?.env?.BLS_API_KEY ? "" : " (a BLS_API_KEY raises it)"}`,
+        retry: { retryable: true },
+      });
+    }
+    throw new UpstreamError({
+      kind: "upstream_unavailable",
+      context: "BLS",
+      message: `BLS error: ${json?.status} | ${detail || JSON.stringify(json)}`,
+      retry: { retryable: false },
+    });
   }
   return json;
 }
 
-/* =========================
- * High-level API
- * ========================= */
-export async function fetchBlsUnempByRace(p: BlsRaceParams): Promise<FetchResult> {
-  const params = BlsRaceParams.parse(p);
-  const ids = params.races.map(r => idFor(r, params.seasonallyAdjusted));
+type BlsApiSeries = { seriesID: string; catalog?: { series_title?: string }; data?: Array<{ year: string; period: string; value: string }> };
+type BlsResponse = { Results?: { series?: BlsApiSeries[] } | Array<{ series?: BlsApiSeries[] }> };
 
-  // Chunk if no API key (BLS can auto-reduce long ranges)
-  const span = Math.max(0, params.endYear - params.startYear + 1);
+/** POST the whole range at once with an API key, otherwise in 10-year chunks (BLS caps unregistered requests). */
+async function fetchBlsRange(ids: string[], startYear: number, endYear: number, ingest: (json: BlsResponse) => void) {
+  const span = Math.max(0, endYear - startYear + 1);
   const MAX_YEARS_PER_CALL = process?.env?.BLS_API_KEY ? span : 10;
-  const rows: MonthlyRow[] = [];
-
-  const ingest = (json: any) => {
-    const containers = Array.isArray(json?.Results) ? json.Results : [json?.Results].filter(Boolean);
-    for (const c of containers) {
-      for (const s of c?.series ?? []) {
-        const seriesId: string = s?.seriesID;
-        const race = raceFromId(seriesId, params.seasonallyAdjusted);
-        const label = (typeof race === "string" && (race as Race) in PROPER) ? PROPER[race as Race] : race;
-        for (const d of s?.data ?? []) {
-          const period = String(d?.period);
-          if (!/^M(0[1-9]|1[0-2])$/.test(period)) continue;
-          const value = Number(d?.value);
-          if (!Number.isFinite(value)) continue;
-          rows.push({ date: `${d.year}-${period.slice(1)}-01`, value, series: String(label), unit: "%" });
-        }
-      }
-    }
-  };
 
   if (MAX_YEARS_PER_CALL >= span) {
-    const json = await fetchBlsSeries(ids, params.startYear, params.endYear);
+    const json = await fetchBlsSeries(ids, startYear, endYear);
     ingest(json);
   } else {
-    let start = params.startYear;
-    while (start <= params.endYear) {
-      const end = Math.min(params.endYear, start + (MAX_YEARS_PER_CALL - 1));
+    let start = startYear;
+    while (start <= endYear) {
+      const end = Math.min(endYear, start + (MAX_YEARS_PER_CALL - 1));
       const json = await fetchBlsSeries(ids, start, end);
       ingest(json);
       start = end + 1;
     }
   }
 
-  rows.sort((a,b) => a.date.localeCompare(b.date));
-  const scope = params.races.length === 1 ? PROPER[params.races[0]] : "Race";
-  const provUrl = "https://api.bls.gov/publicAPI/v2/timeseries/";
-  const requestBody = { seriesid: ids, startyear: String(params.startYear), endyear: String(params.endYear) };
+  const requestBody = { seriesid: ids, startyear: String(startYear), endyear: String(endYear) };
   const note = process?.env?.BLS_API_KEY ? "Requested full range via single POST." : "Fetched in 10-year POST chunks and merged (no API key).";
-  return {
-    title: `Unemployment rate — ${scope} (CPS, ${params.seasonallyAdjusted ? "SA" : "NSA"})`,
-    unit: "%",
-    rows,
-    provenance: { source: "BLS Public API", url: provUrl, note, requestBody },
-  };
+  return { requestBody, note };
+}
+
+/** Visit every monthly / quarterly observation in a BLS response (annual averages "M13" are skipped). */
+function eachObservation(json: BlsResponse, visit: (seriesId: string, date: string, value: number, catalogTitle?: string) => void) {
+  const containers = Array.isArray(json?.Results) ? json.Results : json?.Results ? [json.Results] : [];
+  for (const c of containers) {
+    for (const s of c?.series ?? []) {
+      const seriesId = s?.seriesID;
+      const catalogTitle = s?.catalog?.series_title;
+      for (const d of s?.data ?? []) {
+        const period = String(d?.period);
+        const month = /^M(0[1-9]|1[0-2])$/.test(period)
+          ? period.slice(1)
+          : /^Q0[1-4]$/.test(period)
+            ? String((Number(period.slice(2)) - 1) * 3 + 1).padStart(2, "0")
+            : undefined;
+        if (!month) continue;
+        const value = Number(d?.value);
+        if (!Number.isFinite(value)) continue;
+        visit(seriesId, `${d.year}-${month}-01`, value, catalogTitle);
+      }
+    }
+  }
 }
 
+const PROV_URL = "https://api.bls.gov/publicAPI/v2/timeseries/";
+
 /* =========================
- * NL helpers (optional export if you use them elsewhere)
+ * Frequency / adjustment transforms
  * ========================= */
 
-export function toAnnual(rows: MonthlyRow[]): AnnualRow[] {
-  const byKey = new Map<string, { sum: number; n: number; series: string; year: number }>();
+/**
+ * Average monthly (or native quarterly) observations per series into quarters or
+ * years dated at the period start. Incomplete periods are dropped so a
+ * half-finished year doesn't show up as an annual average.
+ */
+function averageByPeriod(rows: SeriesRow[], frequency: Exclude<BlsFrequency, "monthly">): SeriesRow[] {
+  // Native quarterly series only report the first month of each quarter
+  const quarterlySeries = new Set<string>();
+  for (const series of new Set(rows.map((r) => r.series))) {
+    const months = rows.filter((r) => r.series === series).map((r) => r.date.slice(5, 7));
+    if (months.length > 1 && months.every((m) => ["01", "04", "07", "10"].includes(m))) quarterlySeries.add(series);
+  }
+
+  const byKey = new Map<string, { sum: number; n: number; series: string; date: string }>();
   for (const r of rows) {
-    const y = Number(r.date.slice(0,4));
-    const key = `${r.series}|${y}`;
-    const cur = byKey.get(key) ?? { sum: 0, n: 0, series: r.series, year: y };
+    const y = r.date.slice(0, 4);
+    const m = Number(r.date.slice(5, 7));
+    const date = frequency === "annual" ? `${y}-01-01` : `${y}-${String(Math.floor((m - 1) / 3) * 3 + 1).padStart(2, "0")}-01`;
+    const key = `${r.series}|${date}`;
+    const cur = byKey.get(key) ?? { sum: 0, n: 0, series: r.series, date };
     cur.sum += r.value; cur.n += 1;
     byKey.set(key, cur);
   }
-  const out: AnnualRow[] = [];
-  for (const { sum, n, series, year } of byKey.values()) {
-    if (n > 0) out.push({ year, value: sum / n, series, unit: "%" });
+
+  const out: SeriesRow[] = [];
+  for (const { sum, n, series, date } of byKey.values()) {
+    const perPeriod = (frequency === "annual" ? 12 : 3) / (quarterlySeries.has(series) ? 3 : 1);
+    if (n >= perPeriod) out.push({ date, value: sum / n, series });
   }
-  out.sort((a,b) => a.year - b.year);
   return out;
 }
 
+function transformLabel(seasonallyAdjusted: boolean | undefined, frequency: BlsFrequency): string {
+  const parts: string[] = [];
+  if (seasonallyAdjusted !== undefined) parts.push(seasonallyAdjusted ? "SA" : "NSA");
+  if (frequency === "annual") parts.push("annual average");
+  if (frequency === "quarterly") parts.push("quarterly average");
+  return parts.join(", ");
+}
+
+function withFrequencyNote(note: string, frequency: BlsFrequency): string {
+  if (frequency === "annual") return `${note} Annual averages of monthly values (complete years only).`;
+  if (frequency === "quarterly") return `${note} Quarterly averages of monthly values (complete quarters only).`;
+  return note;
+}
+
+/* =========================
+ * High-level API
+ * ========================= */
+export async function fetchBlsUnempByRace(p: BlsRaceParams): Promise<FetchResult> {
+  const params = BlsRaceParams.parse(p);
+  const ids = params.races.map(r => idFor(r, params.seasonallyAdjusted));
+  const rows: MonthlyRow[] = [];
+
+  const { requestBody, note } = await fetchBlsRange(ids, params.startYear, params.endYear, (json) =>
+    eachObservation(json, (seriesId, date, value) => {
+      const race = raceFromId(seriesId, params.seasonallyAdjusted);
+      const label = (typeof race === "string" && (race as Race) in PROPER) ? PROPER[race as Race] : race;
+      rows.push({ date, value, series: String(label), unit: "%" });
+    })
+  );
+
+  const out: MonthlyRow[] = params.frequency === "monthly"
+    ? rows
+    : averageByPeriod(rows, params.frequency).map((r) => ({ ...r, unit: "%" as const }));
+  out.sort((a,b) => a.date.localeCompare(b.date));
+  const scope = params.races.length === 1 ? PROPER[params.races[0]] : "Race";
+  return {
+    title: `Unemployment rate — ${scope} (CPS, ${transformLabel(params.seasonallyAdjusted, params.frequency)})`,
+    unit: "%",
+    rows: out,
+    provenance: { source: "BLS Public API", url: PROV_URL, note: withFrequencyNote(note, params.frequency), requestBody },
+  };
+}
+
+/**
+ * Any BLS series: registry keys, group names or raw series IDs. One series is
+ * titled by its registry name; several are labelled by their short registry
+ * label (or the BLS catalog title / series ID for unlisted IDs).
+ */
+export async function fetchBlsSeriesData(p: BlsSeriesParams): Promise<FetchResult<SeriesRow>> {
+  const params = BlsSeriesParams.parse(p);
+  const resolved = resolveSeries(params.series, params.seasonallyAdjusted);
+  const ids = resolved.map((r) => r.id);
+  const maxIds = process?.env?.BLS_API_KEY ? 50 : 25; // per-request caps of the BLS API v2
+  if (ids.length > maxIds) throw new Error(`BLS: at most ${maxIds} series per query (got ${ids.length})`);
+
+  const rows: SeriesRow[] = [];
+  const catalogTitles = new Map<string, string>();
+  const { requestBody, note } = await fetchBlsRange(ids, params.startYear, params.endYear, (json) =>
+    eachObservation(json, (seriesId, date, value, catalogTitle) => {
+      if (catalogTitle) catalogTitles.set(seriesId, catalogTitle);
+      rows.push({ date, value, series: seriesId });
+    })
+  );
+
+  const byId = new Map(resolved.map((r) => [r.id, r.info]));
+  const labelFor = (id: string) => byId.get(id)?.label ?? catalogTitles.get(id) ?? id;
+  const nameFor = (id: string) => byId.get(id)?.name ?? catalogTitles.get(id) ?? `BLS series ${id}`;
+  for (const r of rows) r.series = ids.length === 1 ? nameFor(r.series) : labelFor(r.series);
+  const out = params.frequency === "monthly" ? rows : averageByPeriod(rows, params.frequency);
+  out.sort((a, b) => a.series.localeCompare(b.series) || a.date.localeCompare(b.date));
+
+  const infos = resolved.map((r) => r.info);
+  const groups = new Set(infos.map((i) => i?.group));
+  const units = new Set(infos.map((i) => i?.unit));
+  const base =
+    ids.length === 1 ? nameFor(ids[0])
+    : groups.size === 1 && infos[0]?.group ? BLS_GROUP_TITLES[infos[0].group] ?? "BLS series"
+    : "BLS series";
+
+  // Raw IDs keep their own adjustment unless one was asked for, so only label what we know
+  const knownAdjustment = params.seasonallyAdjusted ?? (infos.every(Boolean) ? true : undefined);
+  return {
+    title: `${base} (${transformLabel(knownAdjustment, params.frequency)})`.replace(/ \(\)$/, ""),
+    unit: units.size === 1 && infos[0]?.unit ? infos[0].unit : "Value",
+    rows: out,
+    provenance: { source: "BLS Public API", url: PROV_URL, note: withFrequencyNote(note, params.frequency), requestBody },
+  };
+}
+
 export default {
   BlsRaceParams,
+  BlsSeriesParams,
   fetchBlsUnempByRace,
-  toAnnual,
+  fetchBlsSeriesData,
 };
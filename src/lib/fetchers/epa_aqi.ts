@@ -1,9 +1,15 @@
 import { z } from "zod";
 import JSZip from "jszip";
 import { csvParse } from "d3-dsv";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { resolvePlace } from "@/lib/gazetteer";
+import { cachedFetch, CACHE_TTL } from "@/lib/httpCache";
+import { UnknownLocationError, upstreamError } from "@/lib/errors";
 
 export const EpaAqiParams = z.object({
-  cbsaName: z.string(),                      // e.g., "New York-Newark-Jersey City, NY-NJ-PA"
+  // CBSA name, code ("31080"), or a loose phrase ("LA metro"); an array charts one series per CBSA
+  cbsaName: z.union([z.string(), z.array(z.string())]),   // e.g., "New York-Newark-Jersey City, NY-NJ-PA"
   startYear: z.number().int(),
   endYear: z.number().int(),
 });
@@ -11,9 +17,19 @@ export const EpaAqiParams = z.object({
 export type EpaAqiParams = z.infer<typeof EpaAqiParams>;
 type Row = { date: string; value: number; series?: string };
 
+export type CbsaEntry = { code: string; name: string };
+export type CbsaMatch = CbsaEntry & { score: number };
+export type CbsaLookup = {
+  match?: CbsaEntry;        // set when one CBSA clearly wins
+  candidates: CbsaMatch[];  // best first
+  ambiguous: boolean;       // several CBSAs score about the same
+};
+
+const AIRDATA_BASE = "https://aqs.epa.gov/aqsweb/airdata";
+
 async function fetchZipAsText(url: string, innerCsvName: string): Promise<string> {
-  const resp = await fetch(url, { next: { revalidate: 86400 } });
-  if (!resp.ok) throw new Error(`EPA AirData ${resp.status}`);
+  const resp = await cachedFetch("epa_aqi", url);
+  if (!resp.ok) throw upstreamError("EPA AirData", resp);
   const buf = await resp.arrayBuffer();
   const zip = await JSZip.loadAsync(buf);
   // inner file is typically same name but .csv
@@ -22,23 +38,396 @@ async function fetchZipAsText(url: string, innerCsvName: string): Promise<string
   return await file.async("string");
 }
 
-/** Reads pre-generated files like daily_aqi_by_cbsa_2024.zip and filters to a CBSA name. */
+/* ---------------- per-CBSA yearly index ---------------- */
+
+// Each national yearly file is parsed once into one small file per CBSA, so later
+// queries read only the metros they ask for:
+//   <EPA_INDEX_DIR>/<year>/<CBSA code>.json — that metro's days
+//   <EPA_INDEX_DIR>/<year>/cbsas.json       — the CBSA list (written last: marks a complete year)
+const INDEX_DIR = process.env.EPA_INDEX_DIR || path.join(process.cwd(), ".cache", "epa");
+const INDEX_VERSION = 1;
+
+/** One CBSA's days in a year, column-wise; `category` / `pollutant` index into the lookup lists (-1 = blank). */
+type CbsaDays = {
+  code: string;
+  name: string;
+  date: string[];               // YYYY-MM-DD
+  aqi: Array<number | null>;
+  category: number[];           // 'Category'
+  pollutant: number[];          // 'Defining Parameter'
+  sites: Array<number | null>;  // 'Number of Sites Reporting'
+  categories: string[];
+  pollutants: string[];
+};
+
+type YearMeta = { version: number; year: number; builtAt: number; cbsas: CbsaEntry[] };
+
+type YearIndex = {
+  year: number;
+  builtAt: number;
+  from: "disk" | "built";
+  cbsas: CbsaEntry[];
+  days: (code: string) => Promise<CbsaDays | undefined>;
+};
+
+const yearDir = (year: number) => path.join(INDEX_DIR, String(year));
+
+// Past years are final; the last two files are still being updated, so rebuild them on the EPA TTL
+function isStale(year: number, builtAt: number): boolean {
+  return year >= new Date().getFullYear() - 1 && Date.now() - builtAt > CACHE_TTL.epa_aqi * 1000;
+}
+
+function intern(list: string[], value: string): number {
+  if (!value) return -1;
+  const i = list.indexOf(value);
+  return i >= 0 ? i : list.push(value) - 1;
+}
+
+const finiteOrNull = (v: unknown) => {
+  const n = Number(v);
+  return v === "" || v == null || !Number.isFinite(n) ? null : n;
+};
+
+/** Download and parse one yearly file into per-CBSA day columns. */
+async function parseYear(year: number): Promise<Map<string, CbsaDays>> {
+  const base = `daily_aqi_by_cbsa_${year}`;
+  // columns include: 'CBSA', 'CBSA Code', 'Date', 'AQI', 'Category', 'Defining Parameter', 'Number of Sites Reporting'
+  const table = csvParse(await fetchZipAsText(`${AIRDATA_BASE}/${base}.zip`, `${base}.csv`));
+  const byCode = new Map<string, CbsaDays>();
+  for (const r of table) {
+    const code = String(r["CBSA Code"] ?? "").trim();
+    const name = String(r["CBSA"] ?? "").trim();
+    if (!code || !name) continue;
+    let d = byCode.get(code);
+    if (!d) {
+      d = { code, name, date: [], aqi: [], category: [], pollutant: [], sites: [], categories: [], pollutants: [] };
+      byCode.set(code, d);
+    }
+    d.date.push(String(r["Date"] ?? "").trim());
+    d.aqi.push(finiteOrNull(r["AQI"]));
+    d.category.push(intern(d.categories, String(r["Category"] ?? "").trim()));
+    d.pollutant.push(intern(d.pollutants, String(r["Defining Parameter"] ?? "").trim()));
+    d.sites.push(finiteOrNull(r["Number of Sites Reporting"]));
+  }
+  return byCode;
+}
+
+function cbsaList(days: Iterable<CbsaDays>): CbsaEntry[] {
+  return Array.from(days, ({ code, name }) => ({ code, name })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** A year's index from disk, or undefined when missing, stale or from an older layout. */
+async function readYear(year: number): Promise<YearIndex | undefined> {
+  let meta: YearMeta;
+  try {
+    meta = JSON.parse(await fs.readFile(path.join(yearDir(year), "cbsas.json"), "utf8"));
+  } catch {
+    return undefined;
+  }
+  if (meta.version !== INDEX_VERSION || isStale(year, meta.builtAt)) return undefined;
+
+  const loaded = new Map<string, Promise<CbsaDays | undefined>>();
+  const days = (code: string) => {
+    let p = loaded.get(code);
+    if (!p) {
+      p = fs.readFile(path.join(yearDir(year), `${code}.json`), "utf8").then((t) => JSON.parse(t) as CbsaDays, () => undefined);
+      loaded.set(code, p);
+    }
+    return p;
+  };
+  return { year, builtAt: meta.builtAt, from: "disk", cbsas: meta.cbsas, days };
+}
+
+/** Parse a year and write its index; if the disk isn't writable, the index stays in memory. */
+async function buildYear(year: number): Promise<YearIndex> {
+  const byCode = await parseYear(year);
+  const meta: YearMeta = { version: INDEX_VERSION, year, builtAt: Date.now(), cbsas: cbsaList(byCode.values()) };
+  try {
+    await fs.mkdir(yearDir(year), { recursive: true });
+    for (const d of byCode.values()) await fs.writeFile(path.join(yearDir(year), `${d.code}.json`), JSON.stringify(d));
+    await fs.writeFile(path.join(yearDir(year), "cbsas.json"), JSON.stringify(meta));
+    const written = await readYear(year);
+    if (written) return { ...written, from: "built" };
+  } catch {
+    // read-only file system: serve from memory
+  }
+  return { year, builtAt: meta.builtAt, from: "built", cbsas: meta.cbsas, days: async (code) => byCode.get(code) };
+}
+
+// Disk-backed indexes are small (the CBSA list plus whichever metros were read)
+const YEARS = new Map<number, Promise<YearIndex>>();
+const LOADED_AT = new Map<number, number>();
+const MAX_YEARS = 12;
+
+function loadYearIndex(year: number): Promise<YearIndex> {
+  const hit = YEARS.get(year);
+  if (hit && !isStale(year, LOADED_AT.get(year) ?? 0)) {
+    YEARS.delete(year);
+    YEARS.set(year, hit);
+    return hit;
+  }
+  const p = readYear(year).then((idx) => idx ?? buildYear(year));
+  p.catch(() => YEARS.delete(year));
+  YEARS.set(year, p);
+  LOADED_AT.set(year, Date.now());
+  while (YEARS.size > MAX_YEARS) {
+    const oldest = YEARS.keys().next().value!;
+    YEARS.delete(oldest);
+    LOADED_AT.delete(oldest);
+  }
+  return p;
+}
+
+/**
+ * Build (or load) the per-CBSA index for each year, one year at a time, so
+ * later queries skip the download and parse. Failures are reported per year.
+ */
+export async function warmEpaIndex(
+  years: number[]
+): Promise<Array<{ year: number; cbsas?: number; from?: "disk" | "built"; builtAt?: string; error?: string }>> {
+  const out = [];
+  for (const year of Array.from(new Set(years)).sort((a, b) => a - b)) {
+    try {
+      const idx = await loadYearIndex(year);
+      out.push({ year, cbsas: idx.cbsas.length, from: idx.from, builtAt: new Date(idx.builtAt).toISOString() });
+    } catch (err) {
+      out.push({ year, error: String((err as Error)?.message ?? err) });
+    }
+  }
+  return out;
+}
+
+/* ---------------- CBSA index ---------------- */
+
+/** Distinct CBSA names/codes in a year's daily file (columns 'CBSA', 'CBSA Code'). */
+export function getCbsaIndex(year: number): Promise<CbsaEntry[]> {
+  return loadYearIndex(year).then((idx) => idx.cbsas);
+}
+
+/**
+ * The CBSA list of a year whose index is already built (in memory or on disk);
+ * undefined otherwise. Never downloads: public lookups use this, building is
+ * left to warmEpaIndex and data requests.
+ */
+export async function builtCbsaIndex(year: number): Promise<CbsaEntry[] | undefined> {
+  const hit = YEARS.get(year);
+  if (hit && !isStale(year, LOADED_AT.get(year) ?? 0)) return hit.then((idx) => idx.cbsas, () => undefined);
+  return (await readYear(year))?.cbsas;
+}
+
+// Words that never name a metro area
+const STOPWORDS = new Set([
+  "aqi", "air", "quality", "index", "daily", "in", "for", "the", "of", "and", "vs", "versus",
+  "metro", "metropolitan", "area", "msa", "cbsa", "region", "show", "me", "chart", "plot",
+  "from", "to", "since", "last", "past", "year", "years", "trend", "level", "levels", "pollution",
+]);
+
+function normalize(s: string): string {
+  return String(s || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Split "Portland-Vancouver-Hillsboro, OR-WA" into city tokens and state tokens. */
+function cbsaTokens(name: string): { cities: string[]; states: string[] } {
+  const cut = name.lastIndexOf(",");
+  const cityPart = cut >= 0 ? name.slice(0, cut) : name;
+  const statePart = cut >= 0 ? name.slice(cut + 1) : "";
+  return {
+    cities: normalize(cityPart).split(" ").filter(Boolean),
+    states: normalize(statePart).split(" ").filter(Boolean),
+  };
+}
+
+/**
+ * Score CBSAs against a loose phrase. Exact names and 5-digit CBSA codes win
+ * outright; otherwise each query word found among the city names counts 1
+ * (0.75 for a prefix), naming the principal city adds 0.25 and a matching
+ * state code 0.5. State codes alone never produce a match.
+ */
+export function matchCbsas(query: string, index: CbsaEntry[], limit = 5): CbsaMatch[] {
+  const raw = String(query || "").trim();
+  const code = raw.match(/\b\d{5}\b/)?.[0];
+  const exact = index.find((e) => e.code === code || e.name.toLowerCase() === raw.toLowerCase());
+  if (exact) return [{ ...exact, score: 100 }];
+
+  const terms = normalize(raw)
+    .split(" ")
+    .filter((t) => t && !STOPWORDS.has(t) && !/^\d+$/.test(t));
+  if (!terms.length) return [];
+
+  const scored: CbsaMatch[] = [];
+  for (const e of index) {
+    const { cities, states } = cbsaTokens(e.name);
+    let hits = 0;
+    let bonus = 0;
+    for (const t of terms) {
+      if (cities.includes(t)) hits += 1;
+      else if (t.length >= 3 && cities.some((c) => c.startsWith(t))) hits += 0.75;
+      else if (t.length === 2 && states.includes(t)) bonus += 0.5;
+    }
+    if (!hits) continue;
+    if (cities[0] && terms.some((t) => cities[0] === t || (t.length >= 3 && cities[0].startsWith(t)))) bonus += 0.25;
+    const score = hits + bonus - cities.length * 0.01;
+    scored.push({ ...e, score: Math.round(score * 100) / 100 });
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.name.length - b.name.length);
+  return scored.slice(0, Math.max(1, limit));
+}
+
+/** Near-ties within this margin are reported as ambiguous */
+const AMBIGUOUS_MARGIN = 0.1;
+
+function isNearTie(list: CbsaMatch[]): boolean {
+  return list.length > 1 && list[1].score >= list[0].score - AMBIGUOUS_MARGIN;
+}
+
+/**
+ * Resolve one CBSA phrase against a year's index. Codes, exact names and
+ * multi-word name matches resolve directly; short or ambiguous phrases
+ * ("LA", "Portland Maine") go through the gazetteer's city → CBSA map first.
+ */
+export async function resolveCbsa(query: string, year: number, limit = 5): Promise<CbsaLookup> {
+  const index = await getCbsaIndex(year);
+
+  const candidates = matchCbsas(query, index, limit);
+  if (candidates.length && candidates[0].score >= 2 && !isNearTie(candidates)) {
+    return { match: candidates[0], candidates, ambiguous: false };
+  }
+
+  const found = await resolvePlace(query).catch(() => undefined);
+  const viaPlaces = (found?.candidates ?? [])
+    .map((p) => (p.cbsa ? matchCbsas(p.cbsa, index, 1)[0] : undefined))
+    .filter((m): m is CbsaMatch => !!m)
+    .filter((m, i, all) => all.findIndex((x) => x.code === m.code) === i);
+  const placesAmbiguous = !!found?.ambiguous && viaPlaces.length > 1;
+  if (viaPlaces.length && !placesAmbiguous) return { match: viaPlaces[0], candidates: viaPlaces, ambiguous: false };
+
+  // A state code the gazetteer missed ("springfield mo") can still settle it
+  if (candidates.length && !isNearTie(candidates)) return { match: candidates[0], candidates, ambiguous: false };
+  if (viaPlaces.length) return { candidates: viaPlaces, ambiguous: true };
+  return { candidates, ambiguous: candidates.length > 1 };
+}
+
+/* ---------------- daily AQI ---------------- */
+
+/** `year` if its file is published, else the year before (early in a year the current file may be missing). */
+async function indexYear(year: number): Promise<number> {
+  try {
+    await getCbsaIndex(year);
+    return year;
+  } catch {
+    await getCbsaIndex(year - 1);
+    return year - 1;
+  }
+}
+
+/** Resolve every requested CBSA (throws with the candidate list when one is ambiguous). */
+async function resolveWanted(cbsaName: string | string[], year: number): Promise<CbsaEntry[]> {
+  const wanted = (Array.isArray(cbsaName) ? cbsaName : [cbsaName]).map((s) => s.trim()).filter(Boolean);
+  if (!wanted.length) throw new Error("EPA AQI: missing CBSA");
+
+  const picked: CbsaEntry[] = [];
+  for (const q of wanted) {
+    const found = await resolveCbsa(q, year);
+    if (!found.match) {
+      // The closest CBSAs become "Use …" actions on the page (swapped in for this one, others kept)
+      const message = found.candidates.length
+        ? `"${q}" matches several metro areas; use the full name or CBSA code`
+        : `No metro area (CBSA) matches "${q}"`;
+      const suggestions = found.candidates.slice(0, 5).map((c) => ({
+        label: c.name,
+        value: wanted.map((w) => (w === q ? c.name : w)).join("; "),
+      }));
+      throw new UnknownLocationError("EPA AirData", "cbsa", q, { message, suggestions });
+    }
+    if (!picked.some((c) => c.code === found.match!.code)) picked.push(found.match);
+  }
+  return picked;
+}
+
+/** Reads pre-generated files like daily_aqi_by_cbsa_2024.zip and filters to one or more CBSAs. */
 export async function fetchDailyAqiByCbsa(p: EpaAqiParams): Promise<{ title: string; unit: string; rows: Row[] }> {
+  // Resolve names against the last year in range; filter every year by CBSA code,
+  // which survives the occasional metro-area rename.
+  const year = await indexYear(p.endYear);
+  const picked = await resolveWanted(p.cbsaName, year);
+
+  const byCode = new Map(picked.map((c) => [c.code, c.name]));
   const rows: Row[] = [];
-  for (let y = p.startYear; y <= p.endYear; y++) {
-    const base = `daily_aqi_by_cbsa_${y}`;
-    const url = `https://aqs.epa.gov/aqsweb/airdata/${base}.zip`;
-    const csv = await fetchZipAsText(url, `${base}.csv`);
-    const table = csvParse(csv); // columns include: 'CBSA', 'CBSA Code', 'Date', 'AQI', 'Category', ...
-    for (const r of table) {
-      const cbsa = String((r as any)["CBSA"] ?? "");
-      if (cbsa.toLowerCase() !== p.cbsaName.toLowerCase()) continue;
-      const date = String((r as any)["Date"]);
-      const aqi = Number((r as any)["AQI"]);
-      if (!Number.isFinite(aqi) || !date) continue;
-      rows.push({ date, value: aqi, series: p.cbsaName });
+  for (let y = Math.min(p.startYear, year); y <= year; y++) {
+    const idx = await loadYearIndex(y);
+    for (const [code, series] of byCode) {
+      const d = await idx.days(code);
+      if (!d) continue;
+      d.date.forEach((date, i) => {
+        const aqi = d.aqi[i];
+        if (aqi != null && date) rows.push({ date, value: aqi, series });
+      });
     }
   }
-  rows.sort((a,b) => a.date.localeCompare(b.date));
-  return { title: `Daily AQI — ${p.cbsaName}`, unit: "AQI", rows };
+  rows.sort((a, b) => (a.series ?? "").localeCompare(b.series ?? "") || a.date.localeCompare(b.date));
+  const title = picked.length === 1 ? `Daily AQI — ${picked[0].name}` : "Daily AQI by metro area";
+  return { title, unit: "AQI", rows };
+}
+
+/* ---------------- category / pollutant breakdowns ---------------- */
+
+export type AqiBreakdown = "category" | "pollutant";
+
+// EPA's AQI categories, best to worst
+export const AQI_CATEGORIES = [
+  "Good",
+  "Moderate",
+  "Unhealthy for Sensitive Groups",
+  "Unhealthy",
+  "Very Unhealthy",
+  "Hazardous",
+] as const;
+
+type YearRow = { year: number; value: number; series: string };
+
+/**
+ * Days per year for one CBSA, counted by AQI category ('Category') or by the
+ * pollutant that set that day's AQI ('Defining Parameter'). Days with no
+ * monitor reporting ('Number of Sites Reporting' = 0) are skipped.
+ */
+export async function fetchAqiBreakdownByCbsa(
+  p: EpaAqiParams & { by: AqiBreakdown }
+): Promise<{ title: string; unit: string; rows: YearRow[] }> {
+  const year = await indexYear(p.endYear);
+  const picked = await resolveWanted(p.cbsaName, year);
+  if (picked.length > 1) throw new Error("EPA AQI: category and pollutant breakdowns chart one metro area at a time");
+  const cbsa = picked[0];
+
+  const counts = new Map<string, number>(); // "year|series" → days
+  for (let y = Math.min(p.startYear, year); y <= year; y++) {
+    const d = await (await loadYearIndex(y)).days(cbsa.code);
+    if (!d) continue;
+    const [codes, labels] = p.by === "category" ? [d.category, d.categories] : [d.pollutant, d.pollutants];
+    codes.forEach((k, i) => {
+      const sites = d.sites[i];
+      if (k < 0 || (sites != null && sites <= 0)) return;
+      const key = `${y}|${labels[k]}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+  }
+
+  const rank = (s: string) => {
+    const i = (AQI_CATEGORIES as readonly string[]).indexOf(s);
+    return i < 0 ? AQI_CATEGORIES.length : i;
+  };
+  const rows: YearRow[] = Array.from(counts, ([key, value]) => {
+    const [y, series] = key.split("|");
+    return { year: Number(y), value, series };
+  }).sort((a, b) => a.year - b.year || (p.by === "category" ? rank(a.series) - rank(b.series) : a.series.localeCompare(b.series)));
+
+  const title = p.by === "category"
+    ? `Days per AQI category — ${cbsa.name}`
+    : `Days by main AQI pollutant — ${cbsa.name}`;
+  return { title, unit: "Days", rows };
 }
@@ -1,22 +1,179 @@
-// /mnt/data/openmeteo.ts
-export async function fetchOpenMeteo(lat: number, lon: number) {
-  const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=temperature_2m`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error("Open-Meteo fetch failed");
+// src/lib/fetchers/openmeteo.ts
+// Open-Meteo weather: forecast API for the coming days, archive (ERA5) API for past
+// date ranges. Hourly values or daily aggregates (min/max/mean) for a few variables.
+
+import { cachedFetch } from "@/lib/httpCache";
+import { InvalidParamsError, upstreamError } from "@/lib/errors";
+import { fixtureMode } from "@/lib/fixtures";
+
+export type OpenMeteoVariable = "temperature" | "precipitation" | "wind_speed" | "humidity";
+export type OpenMeteoStat = "mean" | "min" | "max" | "sum";
+export type OpenMeteoMode = "forecast" | "archive";
+export type OpenMeteoResolution = "hourly" | "daily";
+
+export type OpenMeteoOpts = {
+  lat: number;
+  lon: number;
+  variable?: OpenMeteoVariable;        // default "temperature"
+  resolution?: OpenMeteoResolution;    // default: hourly for forecasts/short ranges, daily otherwise
+  stats?: OpenMeteoStat[];             // daily only; each stat becomes a series
+  startDate?: string;                  // YYYY-MM-DD; a past range switches to the archive API
+  endDate?: string;                    // YYYY-MM-DD
+  mode?: OpenMeteoMode;                // force forecast/archive instead of inferring from dates
+  forecastDays?: number;               // forecast only (1-16)
+  placeName?: string;                  // e.g. "Denver, CO"; appended to the title
+};
+
+type Row = { date: string; value: number; series?: string };
+
+export const OPEN_METEO_VARIABLES: readonly OpenMeteoVariable[] = ["temperature", "precipitation", "wind_speed", "humidity"];
+
+/** Open-Meteo field names per variable; daily fields are keyed by stat. */
+const FIELDS: Record<OpenMeteoVariable, { label: string; hourly: string; daily: Partial<Record<OpenMeteoStat, string>>; defaultStats: OpenMeteoStat[] }> = {
+  temperature: {
+    label: "Temperature",
+    hourly: "temperature_2m",
+    daily: { mean: "temperature_2m_mean", min: "temperature_2m_min", max: "temperature_2m_max" },
+    defaultStats: ["mean"],
+  },
+  precipitation: {
+    label: "Precipitation",
+    hourly: "precipitation",
+    daily: { sum: "precipitation_sum" },
+    defaultStats: ["sum"],
+  },
+  wind_speed: {
+    label: "Wind speed",
+    hourly: "wind_speed_10m",
+    daily: { max: "wind_speed_10m_max", mean: "wind_speed_10m_mean" },
+    defaultStats: ["max"],
+  },
+  humidity: {
+    label: "Relative humidity",
+    hourly: "relative_humidity_2m",
+    daily: { mean: "relative_humidity_2m_mean", min: "relative_humidity_2m_min", max: "relative_humidity_2m_max" },
+    defaultStats: ["mean"],
+  },
+};
+
+const STAT_LABEL: Record<OpenMeteoStat, string> = { mean: "Mean", min: "Min", max: "Max", sum: "Total" };
+
+// ERA5 archive lags real time by a few days
+const ARCHIVE_LAG_DAYS = 5;
+
+function isoDay(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(b) - Date.parse(a)) / 86400000);
+}
+
+export function isOpenMeteoVariable(x: unknown): x is OpenMeteoVariable {
+  return typeof x === "string" && (OPEN_METEO_VARIABLES as readonly string[]).includes(x);
+}
+
+export async function fetchOpenMeteo(opts: OpenMeteoOpts) {
+  const variable: OpenMeteoVariable = opts.variable ?? "temperature";
+  const spec = FIELDS[variable];
+  const today = isoDay(new Date());
+
+  // A date range that starts in the past → archive; otherwise forecast.
+  const mode: OpenMeteoMode =
+    opts.mode ?? (opts.startDate && opts.startDate < today ? "archive" : "forecast");
+
+  let startDate = opts.startDate;
+  let endDate = opts.endDate;
+  if (mode === "archive") {
+    const latest = isoDay(new Date(Date.now() - ARCHIVE_LAG_DAYS * 86400000));
+    // Fixtures are keyed by URL: a default or clamped end date moves with the clock and would never replay
+    if (fixtureMode() && (!endDate || endDate > latest)) {
+      throw new InvalidParamsError("Open-Meteo", [{
+        param: "endDate",
+        message: `with LOOKABLE_FIXTURES set, past weather needs an end date on or before ${latest}`,
+        ...(endDate ? { received: endDate } : {}),
+      }]);
+    }
+    endDate = !endDate || endDate > latest ? latest : endDate;
+    startDate = startDate ?? endDate;
+    if (startDate > endDate) startDate = endDate;
+  }
+
+  // Long archive ranges are unreadable hourly; default to daily beyond a month
+  const resolution: OpenMeteoResolution =
+    opts.resolution ?? (mode === "archive" && startDate && endDate && daysBetween(startDate, endDate) > 31 ? "daily" : "hourly");
+
+  const stats = (opts.stats?.length ? opts.stats : spec.defaultStats).filter((s) => spec.daily[s]);
+  const dailyFields = (stats.length ? stats : spec.defaultStats).map((s) => [s, spec.daily[s]!] as const);
+
+  const qs = new URLSearchParams({
+    latitude: String(opts.lat),
+    longitude: String(opts.lon),
+    timezone: "auto",
+  });
+  if (resolution === "daily") qs.set("daily", dailyFields.map(([, f]) => f).join(","));
+  else qs.set("hourly", spec.hourly);
+
+  if (mode === "archive") {
+    qs.set("start_date", startDate!);
+    qs.set("end_date", endDate!);
+  } else if (startDate && endDate) {
+    qs.set("start_date", startDate);
+    qs.set("end_date", endDate);
+  } else if (opts.forecastDays) {
+    qs.set("forecast_days", String(Math.min(16, Math.max(1, Math.round(opts.forecastDays)))));
+  }
+
+  const host = mode === "archive" ? "https://archive-api.open-meteo.com/v1/archive" : "https://api.open-meteo.com/v1/forecast";
+  const url = `${host}?${qs.toString()}`;
+  // Archive days are settled; forecasts fall back to the short openmeteo TTL
+  const res = await cachedFetch("openmeteo", url, undefined, { ttl: mode === "archive" ? 86400 : undefined });
+  if (!res.ok) throw upstreamError("Open-Meteo", res);
   const json = await res.json();
 
-  const rows = json?.hourly?.time?.map((t: string, i: number) => ({
-    time: t,
-    temperature: json.hourly.temperature_2m[i],
-  })) ?? [];
+  const rows: Row[] = [];
+  let unit: string | undefined;
 
-  const unit = json?.hourly_units?.temperature_2m;      // "°C"
-  const yLabel = unit ? `Temperature (${unit})` : "Temperature";
+  if (resolution === "daily") {
+    const times: string[] = json?.daily?.time ?? [];
+    for (const [stat, field] of dailyFields) {
+      const values: Array<number | null> = json?.daily?.[field] ?? [];
+      unit = unit ?? json?.daily_units?.[field];
+      const series = dailyFields.length > 1 ? STAT_LABEL[stat] : spec.label;
+      times.forEach((t, i) => {
+        const v = values[i];
+        if (v == null || !Number.isFinite(Number(v))) return;
+        rows.push({ date: t, value: Number(v), series });
+      });
+    }
+  } else {
+    const times: string[] = json?.hourly?.time ?? [];
+    const values: Array<number | null> = json?.hourly?.[spec.hourly] ?? [];
+    unit = json?.hourly_units?.[spec.hourly];
+    times.forEach((t, i) => {
+      const v = values[i];
+      if (v == null || !Number.isFinite(Number(v))) return;
+      rows.push({ date: t, value: Number(v), series: spec.label });
+    });
+  }
+
+  rows.sort((a, b) => (a.series || "").localeCompare(b.series || "") || a.date.localeCompare(b.date));
+
+  const yLabel = unit ? `${spec.label} (${unit})` : spec.label;     // e.g. "Temperature (°C)"
+  const statText = resolution === "daily" && dailyFields.length === 1 ? `${STAT_LABEL[dailyFields[0][0]].toLowerCase()} ` : "";
+  const when = mode === "archive" ? `${startDate} to ${endDate}` : "forecast";
+  const where = opts.placeName ? ` — ${opts.placeName}` : "";
+  const title = `${resolution === "daily" ? "Daily" : "Hourly"} ${statText}${spec.label.toLowerCase()}${where} (${when})`;
 
   return {
     rows,
-    provenance: { source: "Open-Meteo", url },
-    yLabel,                                             // <-- key!
+    granularity: resolution === "daily" ? ("day" as const) : ("hour" as const),
+    title,
+    yLabel,
+    provenance: {
+      source: mode === "archive" ? "Open-Meteo Historical Weather API (ERA5)" : "Open-Meteo Forecast API",
+      url,
+      license: "CC BY 4.0",
+    },
   };
 }
-
@@ -1,18 +1,32 @@
 // src/lib/fetchers/owid.ts
-// Server-side fetchers for OWID. Avoid browser CORS. Two indicators supported:
+// Server-side fetchers for OWID. Avoid browser CORS.
 //  - "co2": uses consolidated GitHub CSV (owid-co2-data.csv)
 //  - "life-expectancy": uses OWID Grapher CSV (life-expectancy.csv)
+//  - fetchOwidGrapher: any Grapher chart by slug (CSV + metadata JSON)
 
-import { csvParse } from "d3-dsv";
+import { csvParse, type DSVRowArray } from "d3-dsv";
+import { owidEntityFor } from "@/lib/geoAggregates";
+import { cachedFetch } from "@/lib/httpCache";
+import { InvalidParamsError, noDataForRange, UnknownLocationError, upstreamError } from "@/lib/errors";
+// Column labels and units are shared with the co2 metrics' param schema
+import { OWID_CO2_COLUMNS } from "@/lib/sources/owid";
 
 export type OwidIndicator = "life-expectancy" | "co2";
 export type OwidOpts = {
   indicator: OwidIndicator;
-  countries: string[];        // ISO-3 like "USA", "CHN", or OWID country names; we match both
+  countries: string[];        // ISO-3 like "USA", "CHN", WDI aggregates like "WLD"/"HIC", or OWID entity names
   startYear?: number;
   endYear?: number;
+  columns?: string[];         // "co2" only: owid-co2-data.csv columns to chart (default ["co2"])
 };
 
+/** Fossil & industry CO₂ split by source, in stacking order ("by fuel" charts). */
+export const OWID_CO2_FUEL_COLUMNS = ["coal_co2", "oil_co2", "gas_co2", "cement_co2", "flaring_co2", "other_industry_co2"];
+export const OWID_CO2_FUEL_PER_CAPITA_COLUMNS = [
+  "coal_co2_per_capita", "oil_co2_per_capita", "gas_co2_per_capita",
+  "cement_co2_per_capita", "flaring_co2_per_capita", "other_co2_per_capita",
+];
+
 type Row = { date: string; value: number; series?: string };
 
 function isoDate(y: number) { return `${y}-01-01`; }
@@ -51,13 +65,64 @@ function detectValueColumn(table: any, preferred: string[] = []): string | undef
   return candidates[0];
 }
 
+/** Every numeric (non-meta) column in an OWID Grapher CSV, in header order. */
+function detectValueColumns(table: DSVRowArray<string>): string[] {
+  const cols: string[] = table.columns.length ? table.columns : Object.keys(table[0] || {});
+  const NON_VALUE = new Set(["entity", "code", "year", "day"]);
+  return cols.filter((col) => {
+    if (NON_VALUE.has(col.toLowerCase())) return false;
+    let hits = 0;
+    const lim = Math.min(200, table.length || 0);
+    for (let i = 0; i < lim && hits < 5; i++) {
+      const raw = table[i]?.[col];
+      if (raw !== "" && raw != null && Number.isFinite(Number(raw))) hits++;
+    }
+    return hits >= Math.min(5, table.length || 0) && hits > 0;
+  });
+}
+
+/** Normalize requested countries: accept codes or names (case-insensitive).
+ *  WDI aggregate codes have no OWID code, so match them by OWID entity name
+ *  (e.g. "HIC" → "High-income countries", "WLD" → "World").
+ */
+function wantedEntities(countries: string[]): Set<string> {
+  const wantUpper = new Set<string>();
+  for (const raw of countries || []) {
+    const c = String(raw).trim();
+    if (!c) continue;
+    wantUpper.add(c.toUpperCase());
+    const entity = owidEntityFor(c);
+    if (entity) wantUpper.add(entity.toUpperCase());
+  }
+  return wantUpper;
+}
+
+/** Which years have values for the requested entities, whatever the range (for the no-data error). */
+type Coverage = { matched: boolean; first: number; last: number };
+
+const newCoverage = (): Coverage => ({ matched: false, first: Infinity, last: -Infinity });
+
+function cover(c: Coverage, year: number) {
+  c.first = Math.min(c.first, year);
+  c.last = Math.max(c.last, year);
+}
+
+/** No rows: either no entity matched the countries, or the range misses the years they have. */
+function emptyResultError(countries: string[], startYear: number, endYear: number, c: Coverage) {
+  if (!c.matched) {
+    const list = countries.join(", ");
+    return new UnknownLocationError("Our World in Data", "country", countries.join(","), {
+      message: `Our World in Data has no country or region matching ${list}`,
+    });
+  }
+  if (c.last >= c.first) return noDataForRange("Our World in Data", { start: startYear, end: endYear }, { start: c.first, end: c.last });
+  return undefined;
+}
+
 export async function fetchOwid(opts: OwidOpts) {
   const { indicator, countries, startYear = 1950, endYear = new Date().getFullYear() } = opts;
-
-  // Normalize requested countries: accept codes or names (case-insensitive)
-  const wantUpper = new Set(
-    (countries || []).map((c) => String(c).trim()).filter(Boolean).map((c) => c.toUpperCase())
-  );
+  const wantUpper = wantedEntities(countries);
+  const coverage = newCoverage();
 
   let rows: Row[] = [];
   let unit = "Value";
@@ -67,35 +132,64 @@ export async function fetchOwid(opts: OwidOpts) {
   if (indicator === "co2") {
     // Use consolidated dataset from GitHub (wide coverage, stable path)
     url = "https://raw.githubusercontent.com/owid/co2-data/master/owid-co2-data.csv";
-    const res = await fetch(url, { next: { revalidate: 86400 } });
-    if (!res.ok) throw new Error(`OWID CO2 fetch failed: ${res.status}`);
+    const res = await cachedFetch("owid", url);
+    if (!res.ok) throw upstreamError("Our World in Data", res);
     const text = await res.text();
     const table: any = csvParse(text);
 
-    // Columns: iso_code, country, year, co2, ...
+    // Columns: iso_code, country, year, co2, co2_per_capita, coal_co2, ...
+    const columns = opts.columns?.length ? opts.columns : ["co2"];
+    const missing = columns.filter((c) => !(table.columns as string[]).includes(c));
+    if (missing.length) {
+      throw new InvalidParamsError("OWID CO₂ data", [{
+        param: "column",
+        message: `no column ${missing.map((c) => `"${c}"`).join(", ")} in owid-co2-data.csv`,
+        received: missing.join(","),
+        allowed: Object.keys(OWID_CO2_COLUMNS).filter((c) => (table.columns as string[]).includes(c)),
+      }]);
+    }
+    const info = (c: string) => OWID_CO2_COLUMNS[c] ?? { label: c, unit: "Value" };
+    const isFuelSplit = columns.length > 1 && columns.every((c) => info(c).fuel);
+    const colName = (c: string) => (isFuelSplit ? info(c).fuel! : info(c).label);
+
+    const found: Array<{ name: string; col: string; date: string; value: number }> = [];
     table.forEach((r: any) => {
       const iso = String(r.iso_code || "").toUpperCase();
       const name = String(r.country || "");
       const yr = Number(r.year);
-      if (!Number.isFinite(yr) || yr < startYear || yr > endYear) return;
+      if (!Number.isFinite(yr)) return;
 
       if (wantUpper.size && !(wantUpper.has(iso) || wantUpper.has(name.toUpperCase()))) return;
+      coverage.matched = true;
 
-      const v = Number(r.co2); // million tonnes
-      if (!Number.isFinite(v)) return;
-
-      rows.push({ date: isoDate(yr), value: v, series: name });
+      for (const col of columns) {
+        if (r[col] === "" || r[col] == null) continue; // blank = no estimate, not zero
+        const v = Number(r[col]);
+        if (!Number.isFinite(v)) continue;
+        cover(coverage, yr);
+        if (yr >= startYear && yr <= endYear) found.push({ name, col, date: isoDate(yr), value: v });
+      }
     });
 
-    unit = "CO₂ (Mt)";
-    title = "CO₂ emissions (fossil & industry)";
+    // Series: the country for one column; the column for one country; "Country — Column" otherwise
+    const multiCountry = new Set(found.map((f) => f.name)).size > 1;
+    for (const { name, col, date, value } of found) {
+      const series = columns.length === 1 ? name : multiCountry ? `${name} — ${colName(col)}` : colName(col);
+      rows.push({ date, value, series });
+    }
+
+    const units = Array.from(new Set(columns.map((c) => info(c).unit)));
+    unit = units.length === 1 ? units[0] : "Value";
+    title = isFuelSplit
+      ? `CO₂ emissions by fuel${columns.every((c) => c.endsWith("_per_capita")) ? " per capita" : ""}`
+      : columns.map((c) => info(c).label).join(" / ");
   }
 
   else if (indicator === "life-expectancy") {
     // Use Grapher CSV for life expectancy (column name can vary)
     url = "https://ourworldindata.org/grapher/life-expectancy.csv";
-    const res = await fetch(url, { next: { revalidate: 86400 } });
-    if (!res.ok) throw new Error(`OWID life-expectancy fetch failed: ${res.status}`);
+    const res = await cachedFetch("owid", url);
+    if (!res.ok) throw upstreamError("Our World in Data", res);
     const text = await res.text();
     const table: any = csvParse(text);
 
@@ -108,14 +202,16 @@ export async function fetchOwid(opts: OwidOpts) {
       const code = String(r.Code ?? r.code ?? "").toUpperCase();
       const name = String(r.Entity ?? r.entity ?? "");
       const yr = Number(r.Year ?? r.year);
-      if (!Number.isFinite(yr) || yr < startYear || yr > endYear) return;
+      if (!Number.isFinite(yr)) return;
 
       if (wantUpper.size && !(wantUpper.has(code) || wantUpper.has(name.toUpperCase()))) return;
+      coverage.matched = true;
 
       const v = Number(r[valueCol]);
       if (!Number.isFinite(v)) return;
+      cover(coverage, yr);
 
-      rows.push({ date: isoDate(yr), value: v, series: name });
+      if (yr >= startYear && yr <= endYear) rows.push({ date: isoDate(yr), value: v, series: name });
     });
 
     unit = "Years";
@@ -123,7 +219,12 @@ export async function fetchOwid(opts: OwidOpts) {
   }
 
   else {
-    throw new Error(`Unsupported OWID indicator: ${indicator}`);
+    throw new InvalidParamsError("Our World in Data", [{ param: "indicator", message: `unsupported indicator "${indicator}"`, received: String(indicator), allowed: ["life-expectancy", "co2"] }]);
+  }
+
+  if (!rows.length) {
+    const err = emptyResultError(countries, startYear, endYear, coverage);
+    if (err) throw err;
   }
 
   // Sort for deterministic charts
@@ -140,3 +241,145 @@ export async function fetchOwid(opts: OwidOpts) {
     provenance: { source: "Our World in Data", url },
   };
 }
+
+/* ---------------- generic Grapher charts ---------------- */
+
+export type OwidGrapherOpts = {
+  slug: string;               // e.g. "share-elec-by-source"
+  countries: string[];        // same forms as fetchOwid
+  startYear?: number;
+  endYear?: number;
+  column?: string;            // keep one value column (short name or title) of a multi-column chart
+};
+
+type GrapherColumn = { titleShort?: string; titleLong?: string; unit?: string; shortUnit?: string; citationShort?: string };
+type GrapherMetadata = { chart?: { title?: string; subtitle?: string; citation?: string }; columns?: Record<string, GrapherColumn> };
+
+const GRAPHER_BASE = "https://ourworldindata.org/grapher";
+
+/** Grapher metadata (chart title, per-column unit and source). Optional: charts still load without it. */
+async function fetchGrapherMetadata(slug: string): Promise<GrapherMetadata | undefined> {
+  try {
+    const res = await cachedFetch("owid", `${GRAPHER_BASE}/${slug}.metadata.json?v=1&useColumnShortNames=true`);
+    if (!res.ok) return undefined;
+    return (await res.json()) as GrapherMetadata;
+  } catch (err) {
+    console.error("owid: no Grapher metadata for", slug, err);
+    return undefined;
+  }
+}
+
+/**
+ * Any OWID Grapher chart by slug. Each value column becomes a series (named by
+ * its column title, prefixed with the country when several countries are asked
+ * for). Charts with no country-level rows at all (global-only, e.g.
+ * temperature-anomaly) fall back to "World" with a note; otherwise missing
+ * countries or years are an UnknownLocationError / noDataForRange as in fetchOwid.
+ */
+export async function fetchOwidGrapher(opts: OwidGrapherOpts) {
+  const slug = String(opts.slug || "").trim().toLowerCase();
+  if (!/^[a-z0-9-]+$/.test(slug)) {
+    throw new InvalidParamsError("owid_grapher", [{ param: "slug", message: "must be an OWID Grapher slug like life-expectancy", received: String(opts.slug ?? "") }]);
+  }
+  const { countries, startYear = 1900, endYear = new Date().getFullYear() } = opts;
+
+  const url = `${GRAPHER_BASE}/${slug}`;
+  const [res, meta] = await Promise.all([
+    cachedFetch("owid", `${url}.csv?v=1&csvType=full&useColumnShortNames=true`),
+    fetchGrapherMetadata(slug),
+  ]);
+  // An unknown slug is a bad plan parameter, not an outage
+  if (res.status === 404) throw new InvalidParamsError("owid_grapher", [{ param: "slug", message: `no Grapher chart "${slug}"`, received: slug }]);
+  if (!res.ok) throw upstreamError("Our World in Data", res);
+  const table = csvParse(await res.text());
+
+  const colMeta = meta?.columns ?? {};
+  let valueCols = detectValueColumns(table);
+  if (opts.column) {
+    const want = opts.column.toLowerCase();
+    const picked = valueCols.filter(
+      (c) => c.toLowerCase() === want || colMeta[c]?.titleShort?.toLowerCase() === want
+    );
+    if (!picked.length) {
+      const allowed = valueCols.map((c) => colMeta[c]?.titleShort || c);
+      throw new InvalidParamsError("owid_grapher", [{ param: "column", message: `"${slug}" has no column "${opts.column}"`, received: opts.column, allowed }]);
+    }
+    valueCols = picked;
+  }
+  if (!valueCols.length) {
+    throw new InvalidParamsError("owid_grapher", [{ param: "slug", message: `"${slug}" has no numeric columns to chart`, received: slug }]);
+  }
+
+  const colTitle = (c: string) => colMeta[c]?.titleShort || colMeta[c]?.titleLong || c;
+  const timeCol = table.columns.find((c) => /^(year|day)$/i.test(c)) ?? "year";
+  const isDay = /^day$/i.test(timeCol);
+
+  const codeOf = (r: Record<string, string | undefined>) => String(r.code ?? r.Code ?? "").toUpperCase();
+  const collect = (wantUpper: Set<string>, coverage: Coverage) => {
+    const out: Array<{ entity: string; col: string; date: string; value: number }> = [];
+    for (const r of table) {
+      const code = codeOf(r);
+      const entity = String(r.entity ?? r.Entity ?? "");
+      if (wantUpper.size && !(wantUpper.has(code) || wantUpper.has(entity.toUpperCase()))) continue;
+      coverage.matched = true;
+
+      const t = String(r[timeCol] ?? "");
+      const yr = isDay ? Number(t.slice(0, 4)) : Number(t);
+      if (!Number.isFinite(yr)) continue;
+
+      for (const col of valueCols) {
+        if (r[col] === "" || r[col] == null) continue;
+        const value = Number(r[col]);
+        if (!Number.isFinite(value)) continue;
+        cover(coverage, yr);
+        if (yr >= startYear && yr <= endYear) out.push({ entity, col, date: isDay ? t : isoDate(yr), value });
+      }
+    }
+    return out;
+  };
+
+  const coverage = newCoverage();
+  let found = collect(wantedEntities(countries), coverage);
+  let note: string | undefined;
+  if (!found.length && countries?.length) {
+    // ISO3 codes mark country rows; aggregates are OWID_* or blank
+    const hasCountries = table.some((r) => /^[A-Z]{3}$/.test(codeOf(r)));
+    if (hasCountries) {
+      const err = emptyResultError(countries, startYear, endYear, coverage);
+      if (err) throw err;
+    } else {
+      found = collect(new Set(["WORLD", "OWID_WRL"]), newCoverage());
+      if (found.length) note = `This chart has no country-level data; showing World instead of ${countries.join(", ")}.`;
+    }
+  }
+
+  const multiEntity = new Set(found.map((f) => f.entity)).size > 1;
+  const rows: Row[] = found.map(({ entity, col, date, value }) => ({
+    date,
+    value,
+    series: valueCols.length === 1 ? entity : multiEntity ? `${entity} — ${colTitle(col)}` : colTitle(col),
+  }));
+
+  rows.sort(
+    (a, b) =>
+      (a.series || "").localeCompare(b.series || "") ||
+      a.date.localeCompare(b.date)
+  );
+
+  const units = Array.from(new Set(valueCols.map((c) => colMeta[c]?.unit).filter(Boolean)));
+  const citation = Array.from(new Set(valueCols.map((c) => colMeta[c]?.citationShort).filter(Boolean))).join("; ");
+  const title = meta?.chart?.title || (valueCols.length === 1 ? colTitle(valueCols[0]) : undefined);
+
+  return {
+    rows,
+    granularity: isDay ? ("day" as const) : ("year" as const),
+    unit: units.length === 1 ? units[0] : undefined,
+    title,
+    provenance: {
+      source: citation ? `Our World in Data — ${citation}` : "Our World in Data",
+      url,
+      license: "CC BY 4.0",
+      ...(note ? { note } : {}),
+    },
+  };
+}
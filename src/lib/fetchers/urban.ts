@@ -1,75 +1,337 @@
 // src/lib/fetchers/urban.ts
-// Enhanced Urban (NCES/IPEDS/CCD) fetcher that supports a {year} template and multi-year loops.
+// Enhanced Urban (NCES/IPEDS/CCD) fetcher that supports a {year} template and multi-year loops,
+// plus named education metrics (URBAN_METRICS) that build those templates per state.
 
 import { csvParse } from "d3-dsv";
+import { stateByCode, type UsState } from "@/lib/usStates";
+import { cachedFetch } from "@/lib/httpCache";
+import { InvalidParamsError, UpstreamError, upstreamError } from "@/lib/errors";
+// Finance measures, year coverage and the API URL check are shared with the param schemas
+import { URBAN_API_HOST, URBAN_FINANCE_MEASURES, URBAN_YEARS, urbanApiUrl } from "@/lib/sources/urban";
 
 type UrbanParams = {
-  // Either absolute path beginning with /api/v1/... or full https URL
+  // Either absolute path beginning with /api/v1/... or a full educationdata.urban.org URL
   path?: string;              // e.g., "/api/v1/schools/ccd/enrollment/2013/grade-3/?fips=11&sex=99&race=99"
   pathTemplate?: string;      // e.g., "/api/v1/schools/ccd/enrollment/{year}/grade-3/?fips=11&sex=99&race=99"
   years?: number[];           // used only with pathTemplate
   valueField: string;         // e.g., "enrollment"
   yearField?: string;         // defaults to "year"
   seriesField?: string;       // optional series split (e.g., "charter_text")
-  filters?: Record<string, string | number>; // reserved for future use
+  seriesLabels?: Record<string, string>; // seriesField code → label; rows with other codes are dropped
+  seriesLabel?: string;       // fixed series name for every row (e.g., the state)
+  unit?: string;              // y-axis unit, e.g. "Students", "US$"
+  title?: string;
+  aggregate?: UrbanAggregate; // combine school/district-level rows per year and series
+  maxPages?: number;          // page cap per request URL (default URBAN_MAX_PAGES)
+  filters?: Record<string, string | number>; // keep only records with these field values (e.g. { race: 99 })
 };
 
 type Row = { date: string; value: number; series?: string };
 
+export type UrbanAggregate = "sum" | "mean";
+
+// Pages followed per request URL unless the caller says otherwise (override with URBAN_MAX_PAGES)
+export const URBAN_MAX_PAGES = Number(process.env.URBAN_MAX_PAGES) || 50;
+
+/* ---------------- named education metrics ---------------- */
+
+// CCD / IPEDS race codes (99 = total, dropped when splitting by race)
+export const URBAN_RACES: Record<string, string> = {
+  "1": "White",
+  "2": "Black",
+  "3": "Hispanic",
+  "4": "Asian",
+  "5": "American Indian or Alaska Native",
+  "6": "Native Hawaiian or Pacific Islander",
+  "7": "Two or more races",
+};
+
+export type UrbanMetric = {
+  title: string;
+  unit: string;
+  pathTemplate: string;       // {year}, {fips} and {grade} are filled in per request
+  valueField: string;
+  seriesField?: string;
+  seriesLabels?: Record<string, string>;
+  aggregate: UrbanAggregate;  // district/institution rows → one value per state, year and series
+  filters?: Record<string, string | number>; // total rows only, where the endpoint also breaks records down
+  firstYear: number;          // years the endpoint covers (URBAN_YEARS)
+  lastYear: number;
+};
+
+export const URBAN_METRICS: Record<string, UrbanMetric> = {
+  enrollment_grade: {
+    title: "Public school enrollment",
+    unit: "Students",
+    pathTemplate: "/api/v1/school-districts/ccd/enrollment/{year}/grade-{grade}/?fips={fips}",
+    valueField: "enrollment",
+    aggregate: "sum",
+    ...URBAN_YEARS.enrollment_grade,
+  },
+  enrollment_race: {
+    title: "Public school enrollment by race",
+    unit: "Students",
+    pathTemplate: "/api/v1/school-districts/ccd/enrollment/{year}/grade-{grade}/race/?fips={fips}",
+    valueField: "enrollment",
+    seriesField: "race",
+    seriesLabels: URBAN_RACES,
+    aggregate: "sum",
+    ...URBAN_YEARS.enrollment_race,
+  },
+  enrollment_state: {
+    title: "Public school enrollment by state",
+    unit: "Students",
+    pathTemplate: "/api/v1/school-districts/ccd/enrollment/{year}/grade-99/?fips={fips}",
+    valueField: "enrollment",
+    aggregate: "sum",
+    ...URBAN_YEARS.enrollment_state,
+  },
+  ipeds_completions: {
+    title: "Degrees and certificates awarded",
+    unit: "Awards",
+    // Records are split by race and sex next to their 99 = total rows; summing all would count awards several times
+    pathTemplate: "/api/v1/college-university/ipeds/completions-cip-2/{year}/?fips={fips}&majornum=1&race=99&sex=99",
+    valueField: "awards",
+    aggregate: "sum",
+    filters: { race: 99, sex: 99 },
+    ...URBAN_YEARS.ipeds_completions,
+  },
+  school_finance: {
+    title: "School district finances",
+    unit: "US$",
+    pathTemplate: "/api/v1/school-districts/ccd/finance/{year}/?fips={fips}",
+    valueField: "exp_total",
+    aggregate: "sum",
+    ...URBAN_YEARS.school_finance,
+  },
+};
+
+export type UrbanMetricOpts = {
+  metric: string;             // key of URBAN_METRICS
+  states: string[];           // postal codes, FIPS codes or names
+  startYear: number;
+  endYear: number;
+  grade?: number;             // enrollment: -1 = pre-K, 0 = kindergarten, 1..12, 99 = all grades
+  measure?: string;           // school_finance: key of URBAN_FINANCE_MEASURES
+};
+
+// One request per state and year; keep plans from fanning out into hundreds of calls
+const MAX_REQUESTS = 120;
+
+function gradeLabel(grade: number): string {
+  return grade === -1 ? "pre-K" : grade === 0 ? "kindergarten" : `grade ${grade}`;
+}
+
+/* ---------------- fetch ---------------- */
+
+/** A request path (or full URL) as an API URL; nothing off the Education Data API is fetched. */
 function toUrl(input: string) {
-  return input.startsWith("http") ? input : `https://educationdata.urban.org${input}`;
+  const url = urbanApiUrl(input);
+  if (!url) throw new InvalidParamsError("Urban Institute", [{ param: "url", message: `must be an ${URBAN_API_HOST} path starting with /api/v1/`, received: input }]);
+  return url;
 }
 
 function isoDate(y: number) { return `${y}-01-01`; }
 
-async function fetchOne(url: string) {
-  const res = await fetch(url, { next: { revalidate: 86400 } });
-  if (!res.ok) throw new Error(`Urban fetch failed: ${res.status} for ${url}`);
-  return await res.json();
+type Page = { results?: Record<string, unknown>[]; next?: string | null; count?: number };
+
+/**
+ * Every record behind one API URL. The API returns `{ results, next, count }`
+ * pages; `next` is followed until it runs out or `maxPages` is reached (older
+ * endpoints that return a bare array count as one page).
+ */
+async function fetchAllPages(url: string, maxPages: number) {
+  const records: Record<string, unknown>[] = [];
+  let pages = 0;
+  let count: number | undefined;
+  let next: string | null | undefined = url;
+
+  while (next && pages < maxPages) {
+    const res = await cachedFetch("urban", next);
+    if (!res.ok) throw upstreamError("Urban Institute", res);
+    const json = (await res.json()) as Page | Record<string, unknown>[];
+    pages++;
+    if (Array.isArray(json)) {
+      records.push(...json);
+      next = null;
+    } else {
+      records.push(...(json.results ?? []));
+      count = json.count ?? count;
+      next = json.next ? urbanApiUrl(json.next) : null;
+      if (json.next && !next) {
+        throw new UpstreamError({
+          kind: "upstream_unavailable",
+          context: "Urban Institute",
+          message: `Urban Institute: refusing a next-page link off ${URBAN_API_HOST} (${json.next})`,
+          retry: { retryable: false },
+        });
+      }
+    }
+  }
+  return { records, pages, count, truncated: !!next };
+}
+
+// Urban's missing-data codes: -1 missing, -2 not applicable, -3 suppressed
+function isMissingCode(v: number) {
+  return v === -1 || v === -2 || v === -3;
+}
+
+/** One value per date and series: the sum or mean of the rows that share them. */
+function aggregateRows(rows: Row[], how: UrbanAggregate): Row[] {
+  const byKey = new Map<string, { date: string; series?: string; sum: number; n: number }>();
+  for (const r of rows) {
+    const key = `${r.series ?? ""}|${r.date}`;
+    const cur = byKey.get(key) ?? { date: r.date, series: r.series, sum: 0, n: 0 };
+    cur.sum += r.value; cur.n += 1;
+    byKey.set(key, cur);
+  }
+  return Array.from(byKey.values(), ({ date, series, sum, n }) => {
+    const value = how === "mean" ? sum / n : sum;
+    return series ? { date, value, series } : { date, value };
+  });
 }
 
 export async function fetchUrban(p: UrbanParams) {
   const yearField = p.yearField ?? "year";
+  const maxPages = Math.max(1, p.maxPages ?? URBAN_MAX_PAGES);
   let rows: Row[] = [];
   let firstUrl = "";
+  let pagesRead = 0;
+  let recordsRead = 0;
+  const truncated: string[] = [];
+
+  const toRow = (r: Record<string, unknown>, fallbackYear?: number) => {
+    if (p.filters && Object.entries(p.filters).some(([k, want]) => String(r[k]) !== String(want))) return;
+    const yr = Number(r[yearField] ?? fallbackYear);
+    const v = Number(r[p.valueField]);
+    if (!Number.isFinite(yr) || !Number.isFinite(v) || isMissingCode(v)) return;
+    let series = p.seriesLabel;
+    if (p.seriesField && r[p.seriesField] != null) {
+      const code = String(r[p.seriesField]);
+      if (p.seriesLabels && !(code in p.seriesLabels)) return;
+      const label = p.seriesLabels?.[code] ?? code;
+      series = series ? `${series} — ${label}` : label;
+    }
+    rows.push(series ? { date: isoDate(yr), value: v, series } : { date: isoDate(yr), value: v });
+  };
+
+  const read = async (url: string, fallbackYear?: number) => {
+    if (!firstUrl) firstUrl = url;
+    const { records, pages, count, truncated: cut } = await fetchAllPages(url, maxPages);
+    pagesRead += pages;
+    recordsRead += records.length;
+    if (cut) truncated.push(`${url} (${records.length}${count ? ` of ${count}` : ""} records)`);
+    records.forEach((r) => toRow(r, fallbackYear));
+  };
 
   if (p.pathTemplate && p.years && p.years.length) {
     // Loop over years, replacing {year}
     for (const y of p.years) {
-      const path = p.pathTemplate.replace("{year}", String(y));
-      const url = toUrl(path);
-      if (!firstUrl) firstUrl = url;
-      const data: any[] = await fetchOne(url);
-      data.forEach((r: any) => {
-        const yr = Number(r[yearField] ?? y);
-        const v = Number(r[p.valueField]);
-        if (!Number.isFinite(yr) || !Number.isFinite(v)) return;
-        const series = p.seriesField && r[p.seriesField] != null ? String(r[p.seriesField]) : undefined;
-        rows.push(series ? { date: isoDate(yr), value: v, series } : { date: isoDate(yr), value: v });
-      });
+      await read(toUrl(p.pathTemplate.replace("{year}", String(y))), y);
     }
   } else if (p.path) {
-    const url = toUrl(p.path);
-    firstUrl = url;
-    const data: any[] = await fetchOne(url);
-    data.forEach((r: any) => {
-      const yr = Number(r[yearField]);
-      const v = Number(r[p.valueField]);
-      if (!Number.isFinite(yr) || !Number.isFinite(v)) return;
-      const series = p.seriesField && r[p.seriesField] != null ? String(r[p.seriesField]) : undefined;
-      rows.push(series ? { date: isoDate(yr), value: v, series } : { date: isoDate(yr), value: v });
-    });
+    await read(toUrl(p.path));
   } else {
     throw new Error("Urban: provide either path or {pathTemplate + years[]}");
   }
 
+  if (p.aggregate) rows = aggregateRows(rows, p.aggregate);
+
   // Sort rows
   rows.sort((a, b) => a.date.localeCompare(b.date) || (a.series || "").localeCompare(b.series || ""));
 
+  const notes = [`Read ${pagesRead} page${pagesRead === 1 ? "" : "s"}, ${recordsRead} records.`];
+  if (p.aggregate) notes.push(`${p.aggregate === "sum" ? "Summed" : "Averaged"} by year${p.seriesField || p.seriesLabel ? " and series" : ""}.`);
+  if (truncated.length) notes.push(`Stopped at ${maxPages} pages for ${truncated.join("; ")}.`);
+
   return {
     rows,
-    unit: "Students",
-    title: undefined,
-    provenance: { source: "Urban Institute Education Data API", url: firstUrl || "https://educationdata.urban.org/documentation/" },
+    unit: p.unit ?? "Value",
+    title: p.title,
+    truncated: truncated.length > 0,
+    provenance: {
+      source: "Urban Institute Education Data API",
+      url: firstUrl || "https://educationdata.urban.org/documentation/",
+      note: notes.join(" "),
+      pages: pagesRead,
+      records: recordsRead,
+    },
+  };
+}
+
+/**
+ * A named education metric for one or more states over a range of years. Each
+ * state is its own series (split further by race for enrollment_race); the
+ * years are clipped to what the endpoint covers.
+ */
+export async function fetchUrbanMetric(opts: UrbanMetricOpts) {
+  const metric = URBAN_METRICS[opts.metric];
+  if (!metric) throw new Error(`Urban: unknown metric "${opts.metric}" (try: ${Object.keys(URBAN_METRICS).join(", ")})`);
+
+  const states: UsState[] = [];
+  for (const s of opts.states) {
+    const state = stateByCode(s);
+    if (!state) throw new Error(`Urban: unknown US state "${s}"`);
+    if (!states.includes(state)) states.push(state);
+  }
+  if (!states.length) throw new Error("Urban: name at least one US state");
+
+  const first = Math.max(opts.startYear, metric.firstYear);
+  const last = Math.min(opts.endYear, metric.lastYear);
+  if (first > last) {
+    throw new Error(`Urban: ${metric.title.toLowerCase()} is available for ${metric.firstYear}–${metric.lastYear}`);
+  }
+  const years = Array.from({ length: last - first + 1 }, (_, i) => first + i);
+  if (years.length * states.length > MAX_REQUESTS) {
+    throw new Error(`Urban: ${states.length} state(s) × ${years.length} years is too many requests; narrow the range`);
+  }
+
+  const grade = opts.grade ?? 99;
+  const measure = opts.measure ?? metric.valueField;
+  if (opts.metric === "school_finance" && !(measure in URBAN_FINANCE_MEASURES)) {
+    throw new Error(`Urban: unknown finance measure "${measure}" (try: ${Object.keys(URBAN_FINANCE_MEASURES).join(", ")})`);
+  }
+
+  const rows: Row[] = [];
+  let url = "";
+  let pages = 0;
+  let records = 0;
+  const cut: string[] = [];
+  for (const state of states) {
+    const out = await fetchUrban({
+      pathTemplate: metric.pathTemplate.replace("{fips}", String(state.fips)).replace("{grade}", String(grade)),
+      years,
+      valueField: opts.metric === "school_finance" ? measure : metric.valueField,
+      seriesField: metric.seriesField,
+      seriesLabels: metric.seriesLabels,
+      // One state split by race: series are the races alone
+      seriesLabel: metric.seriesField && states.length === 1 ? undefined : state.name,
+      aggregate: metric.aggregate,
+      filters: metric.filters,
+    });
+    rows.push(...out.rows);
+    if (!url) url = out.provenance.url;
+    pages += out.provenance.pages;
+    records += out.provenance.records;
+    if (out.truncated) cut.push(state.name);
+  }
+
+  const base =
+    opts.metric === "school_finance" ? `${URBAN_FINANCE_MEASURES[measure]} of school districts`
+    : grade !== 99 && opts.metric !== "enrollment_state" ? `${metric.title}, ${gradeLabel(grade)}`
+    : metric.title;
+
+  return {
+    rows,
+    unit: metric.unit,
+    title: states.length === 1 ? `${base} — ${states[0].name}` : base,
+    provenance: {
+      source: "Urban Institute Education Data API",
+      url,
+      note: `Read ${pages} pages, ${records} records; ${metric.aggregate === "sum" ? "summed" : "averaged"} by state and year.` +
+        (cut.length ? ` Page cap reached for ${cut.join(", ")}; totals may be low.` : ""),
+      pages,
+      records,
+    },
   };
 }
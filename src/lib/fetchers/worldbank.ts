@@ -1,16 +1,61 @@
+import { toWdiCode } from "@/lib/geoAggregates";
+import { cachedFetch } from "@/lib/httpCache";
+import { InvalidParamsError, noDataForRange, UnknownLocationError, UpstreamError, upstreamError } from "@/lib/errors";
+
+type WdiRow = { year: number; value: number; series?: string };
+
+/** Parse a WDI JSON page into year/value rows; `series` is the country name when multiple countries were asked for. */
+function parseRows(json: any, multi: boolean): WdiRow[] {
+  return (json?.[1] ?? [])
+    .map((r: any) => {
+      const row: WdiRow = { year: Number(r.date), value: r.value == null ? NaN : Number(r.value) };
+      if (multi) row.series = String(r?.country?.value ?? r?.countryiso3code ?? "");
+      return row;
+    })
+    .filter((r: WdiRow) => Number.isFinite(r.value))
+    .sort((a: WdiRow, b: WdiRow) => (a.series ?? "").localeCompare(b.series ?? "") || a.year - b.year);
+}
+
 export async function fetchWDI(
   indicator: string,
-  country = "USA",
+  country: string | string[] = "USA",
   start = 2000,
   end = new Date().getFullYear()
 ) {
-  const iso3 = country.toUpperCase();
+  // The WDI API accepts semicolon-separated country lists (e.g. "IND;CHN;BRA"),
+  // and aggregates (WLD, SSF, HIC, OED, ...) use the same endpoint as countries.
+  const codes = (Array.isArray(country) ? country : String(country).split(/\s*[,;]\s*/))
+    .map((c) => toWdiCode(c))
+    .filter(Boolean);
+  const iso3 = (codes.length ? codes : ["USA"]).join(";");
+  const multi = codes.length > 1;
   const base = `https://api.worldbank.org/v2/country/${iso3}/indicator/${indicator}`;
   const url = `${base}?date=${start}:${end}&format=json&per_page=20000`;
 
-  let res = await fetch(url, { headers: { Accept: "application/json" } });
-  if (!res.ok) throw new Error(`World Bank fetch failed: ${res.status}`);
-  let json = await res.json();
+  const res = await cachedFetch("worldbank", url, { headers: { Accept: "application/json" } });
+  if (!res.ok) throw upstreamError("World Bank", res);
+  const json = await res.json();
+
+  // Bad requests come back as HTTP 200 with a message instead of rows:
+  // 120 is an unknown country code, 175 an unknown indicator
+  const apiMessage = json?.[0]?.message?.[0];
+  if (apiMessage) {
+    if (String(apiMessage.id) === "175") {
+      throw new InvalidParamsError("World Bank", [{ param: "indicator", message: `no WDI indicator "${indicator}"`, received: indicator }]);
+    }
+    if (String(apiMessage.id) === "120") {
+      const list = (codes.length ? codes : ["USA"]).join(", ");
+      throw new UnknownLocationError("World Bank", "country", list, {
+        message: `World Bank doesn't recognize the country code${codes.length > 1 ? "s" : ""} ${list} (use ISO3 codes like USA, IND, WLD)`,
+      });
+    }
+    throw new UpstreamError({
+      kind: "upstream_unavailable",
+      context: "World Bank",
+      message: `World Bank: ${apiMessage.value ?? apiMessage.key ?? "request rejected"}`,
+      retry: { retryable: false },
+    });
+  }
 
   // Pull the official indicator display name from the payload
   const indicatorLabel =
@@ -18,27 +63,18 @@ export async function fetchWDI(
       json[1].find((r: any) => r?.indicator?.value)?.indicator?.value) ||
     indicator; // fallback to the code
 
-  let rows =
-    (json?.[1] ?? [])
-      .map((r: any) => ({ year: Number(r.date), value: r.value == null ? null : Number(r.value) }))
-      .filter((r: any) => Number.isFinite(r.value))
-      .sort((a: any, b: any) => a.year - b.year);
+  const rows = parseRows(json, multi);
 
-  // Fallback: if window is empty (lagged data, wrong code), fetch full series and slice recent years.
+  // Empty window (usually lagged data): look up what the full series covers so the
+  // page can offer it ("data ends in 2022 — show 2012–2022?")
   if (!rows.length) {
-    const urlAll = `${base}?format=json&per_page=20000`;
-    res = await fetch(urlAll, { headers: { Accept: "application/json" } });
-    if (res.ok) {
-      json = await res.json();
-      const all =
-        (json?.[1] ?? [])
-          .map((r: any) => ({ year: Number(r.date), value: r.value == null ? null : Number(r.value) }))
-          .filter((r: any) => Number.isFinite(r.value))
-          .sort((a: any, b: any) => a.year - b.year);
-      rows = all.slice(-6);
+    const all = await cachedFetch("worldbank", `${base}?format=json&per_page=20000`, { headers: { Accept: "application/json" } });
+    const years = all.ok ? parseRows(await all.json(), multi).map((r) => r.year) : [];
+    if (years.length) {
+      throw noDataForRange("World Bank", { start, end }, { start: Math.min(...years), end: Math.max(...years) });
     }
   }
 
   // Return the official y-axis label from the API
-  return { rows, provenance: { source: "World Bank WDI", url }, yLabel: indicatorLabel };
+  return { rows, provenance: { source: "World Bank WDI", url, license: "CC BY 4.0" }, yLabel: indicatorLabel };
 }
@@ -0,0 +1,100 @@
+// src/lib/fixtures.ts
+// Offline fixtures for upstream data calls. With LOOKABLE_FIXTURES=record every
+// response cachedFetch gets from the network is also written to a fixtures
+// directory; with LOOKABLE_FIXTURES=replay those files are served instead and the
+// network is never touched (demos without Wi-Fi, deterministic tests on real payloads).
+// Server-only (do not import in client components).
+
+import "server-only";
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { AllowedSource } from "@/lib/allowlist";
+import { UpstreamError } from "@/lib/errors";
+
+export type FixtureMode = "record" | "replay";
+
+/** Current mode from LOOKABLE_FIXTURES (read per call so tests can switch it). */
+export function fixtureMode(): FixtureMode | undefined {
+  const mode = String(process.env.LOOKABLE_FIXTURES ?? "").toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : undefined;
+}
+
+const fixturesDir = () => process.env.LOOKABLE_FIXTURES_DIR || path.join(process.cwd(), "fixtures");
+
+// BLS request-body fields that depend on the local API key: left out of the key
+// (and the saved request) so recordings replay with or without BLS_API_KEY
+const UNKEYED_FIELDS = ["registrationkey", "catalog"];
+
+type FixtureRequest = { method: string; url: string; body?: unknown };
+
+type FixtureMeta = {
+  request: FixtureRequest;
+  status: number;
+  contentType?: string;
+  recordedAt: string;
+};
+
+function describe(url: string, init?: RequestInit): FixtureRequest {
+  const method = (init?.method ?? "GET").toUpperCase();
+  if (typeof init?.body !== "string" || !init.body) return { method, url };
+  try {
+    const body = JSON.parse(init.body);
+    if (body && typeof body === "object" && !Array.isArray(body)) {
+      for (const f of UNKEYED_FIELDS) delete body[f];
+    }
+    return { method, url, body };
+  } catch {
+    return { method, url, body: init.body };
+  }
+}
+
+/** `<dir>/<source>/<host>-<hash>` (the host keeps the directory browsable). */
+function fixturePath(source: AllowedSource, req: FixtureRequest): string {
+  const hash = createHash("sha256").update(JSON.stringify(req)).digest("hex").slice(0, 16);
+  let host = "local";
+  try {
+    host = new URL(req.url).hostname;
+  } catch {}
+  return path.join(fixturesDir(), source, `${host}-${hash}`);
+}
+
+const toResponse = (body: Uint8Array, status: number, contentType?: string) =>
+  new Response(body as BodyInit, { status, headers: contentType ? { "content-type": contentType } : {} });
+
+/** Save an upstream response (any status, so replays reproduce errors too) and hand back an unread copy. */
+export async function recordFixture(source: AllowedSource, url: string, init: RequestInit | undefined, res: Response): Promise<Response> {
+  const req = describe(url, init);
+  const body = new Uint8Array(await res.arrayBuffer());
+  const contentType = res.headers.get("content-type") ?? undefined;
+  const meta: FixtureMeta = { request: req, status: res.status, contentType, recordedAt: new Date().toISOString() };
+  const file = fixturePath(source, req);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(`${file}.body`, body);
+  await fs.writeFile(`${file}.json`, JSON.stringify(meta, null, 2));
+  return toResponse(body, res.status, contentType);
+}
+
+/**
+ * The recorded response for this request (never goes to the network). Nothing
+ * recorded is an UpstreamError that won't succeed on retry: in replay mode the
+ * fixtures are the upstream.
+ */
+export async function replayFixture(source: AllowedSource, url: string, init?: RequestInit): Promise<Response> {
+  const req = describe(url, init);
+  const file = fixturePath(source, req);
+  let meta: FixtureMeta;
+  let body: Uint8Array;
+  try {
+    meta = JSON.parse(await fs.readFile(`${file}.json`, "utf8"));
+    body = new Uint8Array(await fs.readFile(`${file}.body`));
+  } catch {
+    throw new UpstreamError({
+      kind: "upstream_unavailable",
+      context: `Offline fixtures (${source})`,
+      message: `No recorded fixture for ${req.method} ${url} (LOOKABLE_FIXTURES=replay). Run once with LOOKABLE_FIXTURES=record to capture it.`,
+      retry: { retryable: false },
+    });
+  }
+  return toResponse(body, meta.status, meta.contentType);
+}
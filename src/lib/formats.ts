@@ -0,0 +1,42 @@
+// src/lib/formats.ts
+// Machine-readable serializations of a RunResult, for the data API (/api/data):
+// JSON (the result as-is), CSV (date,value[,series] with a header row, no
+// metadata lines, so it loads straight into pandas/R) and NDJSON (one row per
+// line). Pure: safe to import on client and server.
+
+import { csvFormat } from "d3-dsv";
+import type { RunResult } from "@/lib/schema";
+
+export const DATA_FORMATS = ["json", "csv", "ndjson"] as const;
+export type DataFormat = (typeof DATA_FORMATS)[number];
+
+export const CONTENT_TYPE: Record<DataFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+export function isDataFormat(x: unknown): x is DataFormat {
+  return typeof x === "string" && (DATA_FORMATS as readonly string[]).includes(x);
+}
+
+/** The format an Accept header asks for (first match wins), if any. */
+export function formatFromAccept(accept: string | null | undefined): DataFormat | undefined {
+  for (const part of String(accept ?? "").split(",")) {
+    const type = part.split(";")[0].trim().toLowerCase();
+    if (type === "text/csv") return "csv";
+    if (type === "application/x-ndjson" || type === "application/ndjson") return "ndjson";
+    if (type === "application/json") return "json";
+  }
+  return undefined;
+}
+
+/** date,value[,series]; the series column only when some row has one. Annotations are JSON-only. */
+export function toCsv(result: RunResult): string {
+  const columns: Array<"date" | "value" | "series"> = result.rows.some((r) => r.series != null) ? ["date", "value", "series"] : ["date", "value"];
+  return `${csvFormat(result.rows.map(({ date, value, series }) => ({ date, value: String(value), series: series ?? "" })), columns)}\n`;
+}
+
+export function toNdjson(result: RunResult): string {
+  return result.rows.map((r) => JSON.stringify(r)).join("\n") + (result.rows.length ? "\n" : "");
+}
@@ -0,0 +1,148 @@
+// src/lib/gazetteer.ts
+// Place-name lookup for location-based sources (Open-Meteo, EPA AQI).
+// A small bundled gazetteer of major cities with coordinates and, for US cities,
+// the EPA/OMB CBSA (metro area) name. Server-only (do not import in client components).
+
+import "server-only";
+import PLACES from "@/lib/data/places.json";
+import { iso3AllFromQuery } from "@/lib/countryIndex";
+import { stateByCode } from "@/lib/usStates";
+
+export type Place = {
+  name: string;         // e.g. "Portland"
+  admin?: string;       // US state code ("OR") or region name ("Ontario")
+  country: string;      // ISO3
+  lat: number;
+  lon: number;
+  population?: number;  // only used to rank same-name places
+  cbsa?: string;        // EPA AQI CBSA name, US only
+  aliases?: string[];   // extra spellings ("NYC", "Philly"); ALL-CAPS aliases match case-sensitively
+};
+
+export type PlaceMatch = Omit<Place, "aliases" | "population"> & { label: string };
+
+export type PlaceLookup = {
+  place?: PlaceMatch;        // best guess (largest matching place after qualifiers)
+  candidates: PlaceMatch[];  // every place sharing the matched name, best first
+  ambiguous: boolean;        // more than one candidate survived the qualifiers
+};
+
+// --- utils ---
+
+function stripAccents(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f\u1AB0-\u1AFF\u1DC0-\u1DFF\u20D0-\u20FF\uFE20-\uFE2F]/g, "");
+}
+
+function esc(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Same matching rules as countryIndex: punctuation is optional, ALL-CAPS abbreviations are case-sensitive
+function nameToRegex(name: string): RegExp {
+  const make = (x: string) =>
+    esc(x)
+      .replace(/['’]/g, "['’]?")
+      .replace(/[-_/.,]+/g, "[\\s.,-]*")
+      .replace(/\s+/g, "\\s+");
+  const flags = /^[A-Z][A-Z.]{1,5}$/.test(name) ? "g" : "gi";
+  return new RegExp(`\\b(?:${make(name)}|${make(stripAccents(name))})(?![\\w])`, flags);
+}
+
+function labelFor(p: Place): string {
+  return `${p.name}, ${p.admin ?? p.country}${p.admin && p.country !== "USA" ? `, ${p.country}` : ""}`;
+}
+
+function toMatch(p: Place): PlaceMatch {
+  return {
+    name: p.name,
+    admin: p.admin,
+    country: p.country,
+    lat: p.lat,
+    lon: p.lon,
+    cbsa: p.cbsa,
+    label: labelFor(p),
+  };
+}
+
+const INDEX: Array<{ place: Place; patterns: RegExp[] }> = (PLACES as Place[]).map((place) => ({
+  place,
+  patterns: [place.name, ...(place.aliases ?? [])].map(nameToRegex),
+}));
+
+/** Does the query name this place's state/region ("Portland, ME", "Portland Maine", "London Ontario")? */
+function mentionsAdmin(query: string, p: Place): boolean {
+  if (!p.admin) return false;
+  if (p.country === "USA") {
+    if (new RegExp(`(^|[\\s,(])${p.admin}\\b`).test(query)) return true;
+    const full = stateByCode(p.admin)?.name;
+    return !!full && nameToRegex(full).test(query);
+  }
+  return nameToRegex(p.admin).test(query);
+}
+
+// --- lookup ---
+
+/**
+ * Every gazetteer place named in the query. The longest matched name wins
+ * ("Kansas City" over "Kansas", "Washington DC" over "Washington"); ties keep the
+ * earliest mention. All places sharing that name are returned, largest first.
+ */
+export function findPlaces(query: string): Place[] {
+  return matchPlaces(query).places;
+}
+
+function matchPlaces(query: string): { places: Place[]; index: number; length: number } {
+  const text = String(query || "");
+  let best: { index: number; length: number } | null = null;
+  const hits: Array<{ place: Place; index: number; length: number }> = [];
+
+  for (const { place, patterns } of INDEX) {
+    for (const re of patterns) {
+      re.lastIndex = 0;
+      for (let m = re.exec(text); m; m = re.exec(text)) {
+        hits.push({ place, index: m.index, length: m[0].length });
+        if (!best || m[0].length > best.length || (m[0].length === best.length && m.index < best.index)) {
+          best = { index: m.index, length: m[0].length };
+        }
+      }
+    }
+  }
+  if (!best) return { places: [], index: -1, length: 0 };
+
+  const seen = new Set<Place>();
+  const places = hits
+    .filter((h) => h.index === best!.index && h.length === best!.length)
+    .map((h) => h.place)
+    .filter((p) => (seen.has(p) ? false : (seen.add(p), true)))
+    .sort((a, b) => (b.population ?? 0) - (a.population ?? 0));
+  return { places, ...best };
+}
+
+/**
+ * Resolve the place in a free-text query. Same-name places are narrowed by any
+ * state/region or country also mentioned ("Portland Maine", "Birmingham UK");
+ * otherwise the largest one is picked and the rest come back as candidates.
+ */
+export async function resolvePlace(query: string): Promise<PlaceLookup> {
+  const { places, index, length } = matchPlaces(query);
+  let list = places;
+  if (!list.length) return { candidates: [], ambiguous: false };
+
+  // Qualifiers are read from the rest of the query ("Kansas City" alone names no state)
+  const rest = `${query.slice(0, index)} ${query.slice(index + length)}`;
+
+  if (list.length > 1) {
+    const byAdmin = list.filter((p) => mentionsAdmin(rest, p));
+    if (byAdmin.length) list = byAdmin;
+  }
+  if (list.length > 1) {
+    const countries = await iso3AllFromQuery(rest).catch(() => [] as string[]);
+    const byCountry = list.filter((p) => countries.includes(p.country));
+    if (byCountry.length) list = byCountry;
+  }
+
+  const candidates = list.map(toMatch);
+  return { place: candidates[0], candidates, ambiguous: candidates.length > 1 };
+}
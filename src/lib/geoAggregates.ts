@@ -0,0 +1,81 @@
+// src/lib/geoAggregates.ts
+// World Bank aggregate codes (regions, income groups, lending groups, other groups)
+// with the names people type for them and the matching OWID entity when one exists.
+// Pure data + helpers: safe to import on client and server.
+
+export type GeoKind = "country" | "aggregate";
+
+export type AggregateGroup = "region" | "income" | "lending" | "other";
+
+export type Aggregate = {
+  code: string;          // WDI aggregate code, e.g. "SSF"
+  name: string;          // WDI display name
+  group: AggregateGroup;
+  aliases: string[];     // extra spellings matched in free text (hyphens match spaces too)
+  owid?: string;         // OWID entity name, when OWID publishes the same aggregate
+};
+
+export const AGGREGATES: Aggregate[] = [
+  { code: "WLD", name: "World", group: "region", aliases: ["World", "Global", "Worldwide", "whole world"], owid: "World" },
+
+  // Regions
+  { code: "EAS", name: "East Asia & Pacific", group: "region", aliases: ["East Asia and Pacific", "East Asia & the Pacific"], owid: "East Asia and Pacific (WB)" },
+  { code: "ECS", name: "Europe & Central Asia", group: "region", aliases: ["Europe and Central Asia"], owid: "Europe and Central Asia (WB)" },
+  { code: "LCN", name: "Latin America & Caribbean", group: "region", aliases: ["Latin America and the Caribbean", "Latin America and Caribbean", "Latin America", "LatAm"], owid: "Latin America and Caribbean (WB)" },
+  { code: "MEA", name: "Middle East & North Africa", group: "region", aliases: ["Middle East and North Africa", "MENA", "Middle East"], owid: "Middle East and North Africa (WB)" },
+  { code: "NAC", name: "North America", group: "region", aliases: ["North America"], owid: "North America (WB)" },
+  { code: "SAS", name: "South Asia", group: "region", aliases: ["South Asia"], owid: "South Asia (WB)" },
+  { code: "SSF", name: "Sub-Saharan Africa", group: "region", aliases: ["Sub-Saharan Africa", "Subsaharan Africa", "SSA"], owid: "Sub-Saharan Africa (WB)" },
+  { code: "AFE", name: "Africa Eastern and Southern", group: "region", aliases: ["Eastern and Southern Africa"] },
+  { code: "AFW", name: "Africa Western and Central", group: "region", aliases: ["Western and Central Africa"] },
+  { code: "ARB", name: "Arab World", group: "region", aliases: ["Arab World", "Arab countries", "Arab states"] },
+  { code: "CEB", name: "Central Europe and the Baltics", group: "region", aliases: ["Central Europe and the Baltics"] },
+  { code: "EUU", name: "European Union", group: "region", aliases: ["European Union", "EU", "EU27", "EU-27"], owid: "European Union (27)" },
+  { code: "EMU", name: "Euro area", group: "region", aliases: ["Euro area", "Eurozone", "Euro zone"] },
+
+  // Income groups
+  { code: "HIC", name: "High income", group: "income", aliases: ["high-income", "high-income countries", "rich countries"], owid: "High-income countries" },
+  { code: "UMC", name: "Upper middle income", group: "income", aliases: ["upper-middle-income", "upper-middle-income countries"], owid: "Upper-middle-income countries" },
+  { code: "MIC", name: "Middle income", group: "income", aliases: ["middle-income", "middle-income countries"] },
+  { code: "LMC", name: "Lower middle income", group: "income", aliases: ["lower-middle-income", "lower-middle-income countries"], owid: "Lower-middle-income countries" },
+  { code: "LMY", name: "Low & middle income", group: "income", aliases: ["low and middle income", "low & middle income", "low- and middle-income", "developing countries"] },
+  { code: "LIC", name: "Low income", group: "income", aliases: ["low-income", "low-income countries", "poor countries"], owid: "Low-income countries" },
+
+  // Lending groups
+  { code: "IBD", name: "IBRD only", group: "lending", aliases: ["IBRD only", "IBRD countries", "IBRD"] },
+  { code: "IDB", name: "IDA blend", group: "lending", aliases: ["IDA blend"] },
+  { code: "IDX", name: "IDA only", group: "lending", aliases: ["IDA only"] },
+  { code: "IDA", name: "IDA total", group: "lending", aliases: ["IDA total", "IDA countries", "IDA"] },
+  { code: "IBT", name: "IDA & IBRD total", group: "lending", aliases: ["IDA and IBRD", "IDA & IBRD", "IBRD and IDA"] },
+
+  // Other groups
+  { code: "OED", name: "OECD members", group: "other", aliases: ["OECD members", "OECD countries", "OECD member countries", "OECD"] },
+  { code: "LDC", name: "Least developed countries: UN classification", group: "other", aliases: ["least developed countries", "LDCs"] },
+  { code: "FCS", name: "Fragile and conflict affected situations", group: "other", aliases: ["fragile and conflict affected", "fragile states", "conflict-affected"] },
+  { code: "HPC", name: "Heavily indebted poor countries (HIPC)", group: "other", aliases: ["heavily indebted poor countries", "HIPC"] },
+  { code: "SST", name: "Small states", group: "other", aliases: ["small states"] },
+];
+
+const BY_CODE = new Map(AGGREGATES.map((a) => [a.code, a]));
+
+// OWID publishes some entities under its own codes
+const OWID_CODE_TO_WDI: Record<string, string> = { OWID_WRL: "WLD", OWID_EU27: "EUU", OWID_KOS: "XKX" };
+
+export function isAggregateCode(code: string): boolean {
+  return BY_CODE.has(String(code || "").trim().toUpperCase());
+}
+
+export function aggregateByCode(code: string): Aggregate | undefined {
+  return BY_CODE.get(String(code || "").trim().toUpperCase());
+}
+
+/** Normalize a geo code for the WDI API (maps OWID-only codes like OWID_WRL → WLD). */
+export function toWdiCode(code: string): string {
+  const c = String(code || "").trim().toUpperCase();
+  return OWID_CODE_TO_WDI[c] ?? c;
+}
+
+/** OWID entity name for an aggregate code, if OWID publishes that aggregate. */
+export function owidEntityFor(code: string): string | undefined {
+  return aggregateByCode(toWdiCode(code))?.owid;
+}
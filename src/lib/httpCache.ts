@@ -0,0 +1,319 @@
+// src/lib/httpCache.ts
+// Response cache shared by every fetcher in src/lib/fetchers/. Successful upstream
+// responses are kept in an in-memory LRU and an on-disk store, keyed by method +
+// URL + request body, with a TTL per source. Stores are pluggable (setCacheStores),
+// and runs wrapped in withCacheStats() report their hits/misses for provenance.
+// LOOKABLE_FIXTURES=record|replay routes calls through src/lib/fixtures.ts instead.
+// Server-only (do not import in client components).
+
+import "server-only";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { AllowedSource } from "@/lib/allowlist";
+import { SOURCES } from "@/lib/sources";
+import { fixtureMode, recordFixture, replayFixture, type FixtureMode } from "@/lib/fixtures";
+import { UpstreamError } from "@/lib/errors";
+
+export type CacheEntry = {
+  url: string;
+  status: number;
+  contentType?: string;
+  body: Uint8Array;
+  storedAt: number;   // epoch ms
+  expiresAt: number;  // epoch ms
+};
+
+/** A cache layer. Layers are consulted in order; a hit in a later layer is copied into the earlier ones. */
+export interface CacheStore {
+  name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** What the cache did during one run (surfaced as `provenance.cache`). */
+export type CacheReport = {
+  hits: number;
+  misses: number;
+  storedAt?: string;  // ISO time of the oldest cached response that was served
+  fixtures?: FixtureMode;  // set when responses were recorded to / replayed from fixtures
+};
+
+// Seconds a response stays fresh, per source (`cacheTtl` in src/lib/sources; fetchers may pass a tighter `ttl`)
+export const CACHE_TTL = Object.fromEntries(SOURCES.map((s) => [s.id, s.cacheTtl])) as Record<AllowedSource, number>;
+
+const MB = 1024 * 1024;
+const envNumber = (name: string, fallback: number) => {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+/* ---------------- memory store (LRU) ---------------- */
+
+export function memoryStore(maxBytes = envNumber("LOOKABLE_CACHE_MEMORY_MB", 64) * MB): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  let bytes = 0;
+  // A single entry may use at most a quarter of the budget so one large file can't flush everything
+  const maxEntry = maxBytes / 4;
+
+  const drop = (key: string) => {
+    const e = entries.get(key);
+    if (!e) return;
+    bytes -= e.body.byteLength;
+    entries.delete(key);
+  };
+
+  return {
+    name: "memory",
+    async get(key) {
+      const e = entries.get(key);
+      if (!e) return undefined;
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, e);
+      return e;
+    },
+    async set(key, entry) {
+      drop(key);
+      if (entry.body.byteLength > maxEntry) return;
+      entries.set(key, entry);
+      bytes += entry.body.byteLength;
+      while (bytes > maxBytes && entries.size) drop(entries.keys().next().value!);
+    },
+    async delete(key) {
+      drop(key);
+    },
+  };
+}
+
+/* ---------------- disk store ---------------- */
+
+type DiskMeta = Omit<CacheEntry, "body"> & { size: number };
+
+/**
+ * One `<key>.json` (metadata) + `<key>.bin` (body) pair per entry. When the
+ * directory grows past `maxBytes`, the least recently written entries go first.
+ * Disk errors (read-only file systems, races) are treated as misses.
+ */
+export function diskStore(
+  dir = process.env.LOOKABLE_CACHE_DIR || path.join(process.cwd(), ".cache", "http"),
+  maxBytes = envNumber("LOOKABLE_CACHE_DISK_MB", 512) * MB
+): CacheStore {
+  const file = (key: string, ext: "json" | "bin") => path.join(dir, `${key}.${ext}`);
+  let sizes: Promise<Map<string, { size: number; mtime: number }>> | null = null;
+
+  // Directory listing, read once and then kept up to date by set/delete
+  const index = () =>
+    (sizes ??= (async () => {
+      const map = new Map<string, { size: number; mtime: number }>();
+      const names = await fs.readdir(dir).catch(() => [] as string[]);
+      for (const name of names) {
+        if (!name.endsWith(".bin")) continue;
+        const st = await fs.stat(path.join(dir, name)).catch(() => null);
+        if (st) map.set(name.slice(0, -4), { size: st.size, mtime: st.mtimeMs });
+      }
+      return map;
+    })());
+
+  const remove = async (key: string) => {
+    (await index()).delete(key);
+    await Promise.all([fs.rm(file(key, "json"), { force: true }), fs.rm(file(key, "bin"), { force: true })]).catch(() => {});
+  };
+
+  const prune = async () => {
+    const map = await index();
+    let total = 0;
+    for (const v of map.values()) total += v.size;
+    if (total <= maxBytes) return;
+    const oldest = [...map.entries()].sort((a, b) => a[1].mtime - b[1].mtime);
+    for (const [key, { size }] of oldest) {
+      if (total <= maxBytes) break;
+      await remove(key);
+      total -= size;
+    }
+  };
+
+  return {
+    name: "disk",
+    async get(key) {
+      try {
+        const meta = JSON.parse(await fs.readFile(file(key, "json"), "utf8")) as DiskMeta;
+        const body = new Uint8Array(await fs.readFile(file(key, "bin")));
+        if (body.byteLength !== meta.size) return undefined; // half-written entry
+        return { url: meta.url, status: meta.status, contentType: meta.contentType, storedAt: meta.storedAt, expiresAt: meta.expiresAt, body };
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      if (entry.body.byteLength > maxBytes) return;
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        const { body, ...rest } = entry;
+        const meta: DiskMeta = { ...rest, size: body.byteLength };
+        // Write-then-rename so readers never see a partial body
+        const tmp = `${file(key, "bin")}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, body);
+        await fs.rename(tmp, file(key, "bin"));
+        await fs.writeFile(file(key, "json"), JSON.stringify(meta));
+        (await index()).set(key, { size: body.byteLength, mtime: Date.now() });
+        await prune();
+      } catch {
+        // best effort
+      }
+    },
+    async delete(key) {
+      await remove(key);
+    },
+  };
+}
+
+/* ---------------- configuration ---------------- */
+
+// LOOKABLE_CACHE: "off" (no caching), "memory" (no disk), anything else = memory + disk
+function defaultStores(): CacheStore[] {
+  const mode = String(process.env.LOOKABLE_CACHE ?? "").toLowerCase();
+  if (mode === "off") return [];
+  if (mode === "memory") return [memoryStore()];
+  return [memoryStore(), diskStore()];
+}
+
+let STORES: CacheStore[] | null = null;
+const stores = () => (STORES ??= defaultStores());
+
+/** Replace the cache layers (e.g., a shared Redis/KV store); `[]` disables caching. */
+export function setCacheStores(next: CacheStore[]) {
+  STORES = next;
+}
+
+/* ---------------- per-run stats ---------------- */
+
+type Stats = { hits: number; misses: number; oldest?: number };
+const RUN = new AsyncLocalStorage<Stats>();
+
+/** Run `fn`, counting the cache hits/misses of every cachedFetch it makes. */
+export async function withCacheStats<T>(fn: () => Promise<T>): Promise<{ result: T; cache: CacheReport }> {
+  const stats: Stats = { hits: 0, misses: 0 };
+  const result = await RUN.run(stats, fn);
+  const cache: CacheReport = { hits: stats.hits, misses: stats.misses };
+  if (stats.oldest != null) cache.storedAt = new Date(stats.oldest).toISOString();
+  const fixtures = fixtureMode();
+  if (fixtures) cache.fixtures = fixtures;
+  return { result, cache };
+}
+
+function record(entry: CacheEntry | null) {
+  const s = RUN.getStore();
+  if (!s) return;
+  if (!entry) {
+    s.misses++;
+    return;
+  }
+  s.hits++;
+  s.oldest = Math.min(s.oldest ?? Infinity, entry.storedAt);
+}
+
+/* ---------------- fetch ---------------- */
+
+export type CachedFetchOptions = {
+  ttl?: number;  // seconds; defaults to CACHE_TTL[source]
+};
+
+const LABEL = Object.fromEntries(SOURCES.map((s) => [s.id, s.label])) as Record<AllowedSource, string>;
+
+/** `fetch`, with network failures (DNS, refused or reset connections) thrown as a retryable UpstreamError. */
+async function upstreamFetch(source: AllowedSource, url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (err) {
+    const label = LABEL[source];
+    throw new UpstreamError({
+      kind: "upstream_unavailable",
+      context: label,
+      message: `${label} couldn't be reached (${String((err as Error)?.message ?? err)})`,
+      retry: { retryable: true },
+    });
+  }
+}
+
+/** Cache key: a hash of method, URL and body (so BLS POSTs with different series don't collide). */
+export function cacheKey(url: string, init?: RequestInit): string {
+  const method = (init?.method ?? "GET").toUpperCase();
+  const body = typeof init?.body === "string" ? init.body : "";
+  return createHash("sha256").update(`${method} ${url}\n${body}`).digest("hex");
+}
+
+const toResponse = (e: CacheEntry) =>
+  new Response(e.body as BodyInit, { status: e.status, headers: e.contentType ? { "content-type": e.contentType } : {} });
+
+// Concurrent requests for the same key share one upstream call
+const IN_FLIGHT = new Map<string, Promise<CacheEntry | Response>>();
+
+async function lookup(key: string): Promise<CacheEntry | undefined> {
+  const layers = stores();
+  for (let i = 0; i < layers.length; i++) {
+    const hit = await layers[i].get(key);
+    if (!hit) continue;
+    if (hit.expiresAt <= Date.now()) {
+      await layers[i].delete(key);
+      continue;
+    }
+    // Promote into the faster layers
+    await Promise.all(layers.slice(0, i).map((l) => l.set(key, hit)));
+    return hit;
+  }
+  return undefined;
+}
+
+/**
+ * `fetch` through the cache. Only 2xx responses are stored; anything else is
+ * returned as-is so fetchers keep their own error handling (see upstreamError
+ * in src/lib/errors.ts); network failures throw an UpstreamError. In fixture mode the
+ * cache is bypassed: "record" always goes to the network and saves the response,
+ * "replay" serves the saved one and never goes to the network.
+ */
+export async function cachedFetch(
+  source: AllowedSource,
+  url: string,
+  init?: RequestInit,
+  opts: CachedFetchOptions = {}
+): Promise<Response> {
+  const fixtures = fixtureMode();
+  if (fixtures === "replay") return replayFixture(source, url, init);
+  if (fixtures === "record") return recordFixture(source, url, init, await upstreamFetch(source, url, init));
+  if (!stores().length) return upstreamFetch(source, url, init);
+
+  const key = cacheKey(url, init);
+  const cached = await lookup(key);
+  if (cached) {
+    record(cached);
+    return toResponse(cached);
+  }
+  record(null);
+
+  let pending = IN_FLIGHT.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const res = await upstreamFetch(source, url, init);
+      // Not stored; every caller gets a clone (below), headers like Retry-After included
+      if (!res.ok) return res;
+      const now = Date.now();
+      const entry: CacheEntry = {
+        url,
+        status: res.status,
+        contentType: res.headers.get("content-type") ?? undefined,
+        body: new Uint8Array(await res.arrayBuffer()),
+        storedAt: now,
+        expiresAt: now + (opts.ttl ?? CACHE_TTL[source]) * 1000,
+      };
+      await Promise.all(stores().map((l) => l.set(key, entry)));
+      return entry;
+    })().finally(() => IN_FLIGHT.delete(key));
+    IN_FLIGHT.set(key, pending);
+  }
+  const out = await pending;
+  // The shared error response is never read itself, so each waiter can read its own copy
+  return out instanceof Response ? out.clone() : toResponse(out);
+}
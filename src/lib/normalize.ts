@@ -0,0 +1,77 @@
+// src/lib/normalize.ts
+// Normalization layer between the fetchers and everything downstream. Fetchers
+// hand back rows keyed by `date`, `year` or `time`; normalizeResult() turns them
+// into the canonical RunResult (src/lib/schema.ts) and validates it, so a bad
+// payload fails with a readable error instead of rendering a blank chart.
+// Pure: safe to import on client and server.
+
+import { RunResultSchema, type Granularity, type Row, type RunResult } from "@/lib/schema";
+
+/** A row as fetchers produce it (before normalization). */
+export type RawRow = {
+  date?: string;
+  year?: number | string;
+  time?: string;
+  value: number | string | null;
+  series?: string | null;
+  annotations?: Row["annotations"];
+};
+
+/** A fetcher/runSource result before normalization. */
+export type RawResult = Omit<RunResult, "rows" | "provenance"> & {
+  rows: RawRow[];
+  provenance: RunResult["provenance"];
+};
+
+/** A result that doesn't fit the canonical schema; `issues` lists every problem found. */
+export class ResultValidationError extends Error {
+  constructor(readonly context: string, readonly issues: string[]) {
+    const shown = issues.slice(0, 5).join("; ");
+    const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : "";
+    super(`${context} returned data in an unexpected shape: ${shown}${more}`);
+    this.name = "ResultValidationError";
+  }
+}
+
+/** Period-start ISO date for a raw row: "2020" → "2020-01-01", "2020-03" → "2020-03-01", hours keep HH:mm. */
+function toDate(r: RawRow, granularity: Granularity): string | undefined {
+  const raw = r.date ?? r.time ?? (r.year != null && r.year !== "" ? String(r.year) : undefined);
+  if (raw == null) return undefined;
+  const s = String(raw).trim();
+  if (/^\d{4}$/.test(s)) return `${s}-01-01`;
+  if (/^\d{4}-\d{2}$/.test(s)) return `${s}-01`;
+  if (granularity === "hour") return s.slice(0, 16);
+  return s.slice(0, 10);
+}
+
+function isMissing(v: unknown) {
+  return v == null || v === "";
+}
+
+/**
+ * Canonical, validated result. Missing values (null / empty) are dropped;
+ * anything else that doesn't fit — a non-numeric value, a date that doesn't
+ * match the declared granularity — throws a ResultValidationError.
+ * `context` names the metric in the error (e.g. "bls_series").
+ */
+export function normalizeResult(raw: RawResult, context = "Data source"): RunResult {
+  const rows: Array<Record<string, unknown>> = [];
+  for (const r of raw.rows ?? []) {
+    if (!r || isMissing(r.value)) continue;
+    const row: Record<string, unknown> = { date: toDate(r, raw.granularity), value: Number(r.value) };
+    if (r.series != null && String(r.series).trim()) row.series = String(r.series);
+    if (r.annotations) row.annotations = r.annotations;
+    rows.push(row);
+  }
+
+  const parsed = RunResultSchema.safeParse({ ...raw, rows });
+  if (parsed.success) return parsed.data;
+
+  const issues = parsed.error.issues.map((issue) => {
+    const where = issue.path
+      .map((p, i) => (typeof p === "number" ? `[${p}]` : `${i ? "." : ""}${String(p)}`))
+      .join("");
+    return where ? `${where}: ${issue.message}` : issue.message;
+  });
+  throw new ResultValidationError(context, issues);
+}
@@ -0,0 +1,133 @@
+// src/lib/owidIndex.ts
+// Searchable list of OWID Grapher charts (slug, title, topic), bundled locally.
+// Any Grapher slug works with fetchOwidGrapher; this list only helps the planner
+// find one from free text. Server-only (do not import in client components).
+
+import "server-only";
+import CHARTS from "@/lib/data/owid_charts.json";
+
+export type OwidChart = {
+  slug: string;    // e.g. "share-elec-by-source"
+  title: string;   // Grapher chart title
+  topic?: string;  // e.g. "Energy"
+};
+
+export type OwidChartMatch = OwidChart & { score: number };
+
+type IndexEntry = OwidChart & { tokens: string[] };
+
+// --- utils ---
+
+function stripAccents(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+// Words that say nothing about *which* chart the user wants
+const STOPWORDS = new Set([
+  "a", "an", "the", "of", "in", "on", "for", "to", "from", "and", "or", "by", "vs", "versus",
+  "at", "as", "with", "since", "between", "over", "last", "past", "years", "year", "until",
+  "present", "now", "show", "me", "chart", "plot", "graph", "trend", "trends", "data",
+  "compare", "comparison", "what", "is", "was", "how", "has", "changed", "time", "our",
+  "world", "owid", "grapher", "share", "rate", "per", "number",
+]);
+
+// Common user phrasings → words used in OWID chart titles
+const SYNONYMS: Record<string, string[]> = {
+  carbon: ["co₂"],
+  ghg: ["greenhouse"],
+  obesity: ["obese"],
+  smoking: ["smoke"],
+  happiness: ["satisfaction"],
+  happy: ["satisfaction"],
+  inequality: ["gini"],
+  murder: ["homicide"],
+  fertility: ["children", "woman"],
+  ev: ["electric"],
+  evs: ["electric"],
+  warming: ["temperature"],
+  hunger: ["undernourished"],
+  school: ["schooling"],
+};
+
+// Crude plural folding so "cars" matches "car" and "yields" matches "yield"
+function stem(t: string): string {
+  return t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t;
+}
+
+function tokenize(s: string): string[] {
+  return stripAccents(String(s || "").toLowerCase())
+    .replace(/[^a-z0-9₂.\s-]+/g, " ")
+    .replace(/co2/g, "co₂")
+    .split(/[\s:-]+/)
+    .map((t) => stem(t.replace(/^\.+|\.+$/g, "")))
+    .filter(Boolean);
+}
+
+function queryTerms(query: string): string[] {
+  const out: string[] = [];
+  for (const t of tokenize(query)) {
+    if (STOPWORDS.has(t) || /^\d+$/.test(t)) continue;
+    out.push(t);
+    for (const alt of SYNONYMS[t] ?? []) if (!out.includes(alt)) out.push(alt);
+  }
+  return out;
+}
+
+/** "share-elec-by-source" → "Share elec by source" (title fallback for unlisted slugs). */
+export function titleFromSlug(slug: string): string {
+  const s = String(slug || "").replace(/-/g, " ").trim();
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+const INDEX: IndexEntry[] = (CHARTS as OwidChart[]).map((c) => ({
+  ...c,
+  tokens: tokenize(c.title),
+}));
+
+// --- lookup ---
+
+export function getOwidChart(slug: string): OwidChart | undefined {
+  const want = String(slug || "").trim().toLowerCase();
+  const hit = INDEX.find((e) => e.slug === want);
+  return hit ? { slug: hit.slug, title: hit.title, topic: hit.topic } : undefined;
+}
+
+/**
+ * Keyword search over the bundled chart list. A Grapher URL or an exact slug in
+ * the query wins outright (unlisted slugs from URLs are accepted as-is);
+ * otherwise charts score by how many query terms appear in their title (a
+ * matching topic counts half), with a small penalty for longer titles.
+ */
+export function searchOwidCharts(query: string, limit = 5): OwidChartMatch[] {
+  const raw = String(query || "");
+
+  const url = raw.match(/ourworldindata\.org\/grapher\/([a-z0-9-]+)/i);
+  const slugToken = url?.[1] ?? raw.match(/\b[a-z0-9]+(?:-[a-z0-9]+){2,}\b/i)?.[0];
+  if (slugToken) {
+    const listed = getOwidChart(slugToken);
+    if (listed) return [{ ...listed, score: 100 }];
+    if (url) return [{ slug: slugToken.toLowerCase(), title: titleFromSlug(slugToken), score: 100 }];
+  }
+
+  const terms = queryTerms(raw);
+  if (!terms.length) return [];
+
+  const scored: OwidChartMatch[] = [];
+  for (const e of INDEX) {
+    let hits = 0;
+    for (const t of terms) {
+      if (e.tokens.some((tok) => tok === t || (t.length >= 4 && tok.startsWith(t)))) hits += 1;
+      else if (e.topic && e.topic.toLowerCase() === t) hits += 0.5;
+    }
+    if (hits < 1) continue;
+    const extra = e.tokens.filter((tok) => !terms.includes(tok) && !STOPWORDS.has(tok)).length;
+    // Every bundled chart counts as "popular" (+0.75) so scores line up with the WDI index
+    const score = hits * 2 + 0.75 - extra * 0.05;
+    scored.push({ slug: e.slug, title: e.title, topic: e.topic, score: Math.round(score * 100) / 100 });
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.title.length - b.title.length);
+  return scored.slice(0, Math.max(1, limit));
+}
@@ -0,0 +1,55 @@
+// src/lib/params.ts
+// Plan parameter validation. Every catalog metric declares a zod schema for its
+// params (src/lib/sources); checkParams() runs a plan's params, merged over the
+// metric defaults, through it before anything is fetched. Each problem becomes a
+// ParamIssue naming the parameter and, for closed sets, the values that work
+// (thrown as an InvalidParamsError, see src/lib/errors.ts).
+// Pure: safe to import on client and server.
+
+import type { z } from "zod";
+import { CATALOG, type MetricId } from "@/lib/catalog";
+import type { Params } from "@/lib/sources";
+import { InvalidParamsError, type ParamIssue } from "@/lib/errors";
+
+type ZodIssue = z.ZodError["issues"][number];
+
+function toIssue(issue: ZodIssue, input: Params): ParamIssue {
+  const param = issue.path.length ? String(issue.path[0]) : "params";
+  const received = input[param];
+  const out: ParamIssue = { param, message: issue.message };
+  if (received !== undefined) out.received = received;
+
+  if (issue.code === "invalid_value") {
+    out.message = received === undefined ? "is required" : `"${received}" isn't accepted`;
+    out.allowed = issue.values.map(String);
+  } else if (issue.code === "invalid_type" && received === undefined) {
+    out.message = "is required";
+  } else if (issue.code === "custom" && Array.isArray(issue.params?.allowed)) {
+    out.allowed = issue.params.allowed.map(String);
+  }
+  return out;
+}
+
+/**
+ * The plan's params merged over the metric defaults, checked against the
+ * metric's schema (plus start ≤ end). Throws an InvalidParamsError listing
+ * every bad parameter; the merged params are returned unchanged otherwise.
+ */
+export function checkParams(metricId: MetricId, params: Params = {}): Params {
+  const meta = CATALOG[metricId];
+  const merged: Params = { ...(meta.defaultParams ?? {}), ...params };
+  const parsed = meta.params.safeParse(merged);
+  const issues = parsed.success ? [] : parsed.error.issues.map((i) => toIssue(i, merged));
+
+  for (const [a, b] of [["start", "end"], ["startYear", "endYear"]] as const) {
+    const start = Number(merged[a]);
+    const end = Number(merged[b]);
+    if (merged[a] == null || merged[b] == null || !Number.isFinite(start) || !Number.isFinite(end)) continue;
+    if (start > end && !issues.some((i) => i.param === a || i.param === b)) {
+      issues.push({ param: b, message: `ends (${end}) before it starts (${start})`, received: merged[b] });
+    }
+  }
+
+  if (issues.length) throw new InvalidParamsError(metricId, issues);
+  return merged;
+}
@@ -0,0 +1,100 @@
+// src/lib/permalink.ts
+// Shareable chart links: the resolved plan (metricId, params, chart meta), the
+// query text and the StyleConfig the chart was drawn with, packed into one URL
+// parameter. Opening the link re-runs the plan as-is (no planning), so the
+// chart comes back the same even if the planner has changed since.
+//
+// Wire format: `<version>.<base64url(JSON)>` with short keys
+//   v1  { q: query, m: metricId, p: params, c?: chart meta, n?: note, s?: style }
+// Decoding validates with zod; an unknown version or a mangled payload is null.
+
+import { z } from "zod";
+import { ALLOWED_CHART_TYPES, type StyleConfig } from "@/lib/state/style";
+
+/** The URL parameter holding the encoded chart, e.g. `/?chart=1.eyJxIjoi…`. */
+export const PERMALINK_PARAM = "chart";
+
+const VERSION = "1";
+
+// Links get pasted into chats and docs; anything longer is not ours
+const MAX_ENCODED = 8000;
+
+export type Permalink = {
+  query: string;
+  plan: { metricId: string; params: Record<string, string | number>; chart?: Record<string, unknown>; note?: string };
+  style: StyleConfig | null;
+};
+
+/** A StyleConfig from outside (a link, an imported library); unknown keys are dropped. */
+export const StyleSchema = z
+  .object({
+    chartType: z.enum(ALLOWED_CHART_TYPES).optional(),
+    colorPalette: z.array(z.string().max(64)).max(32).optional(),
+    legendPosition: z.enum(["top", "right", "bottom", "left"]).optional(),
+    fontSize: z.number().min(4).max(72).optional(),
+    grid: z.boolean().optional(),
+    background: z.string().max(64).optional(),
+    strokeWidth: z.number().min(0).max(20).optional(),
+    pointSize: z.number().min(0).max(1000).optional(),
+  })
+  .strip();
+
+const V1 = z.object({
+  q: z.string().max(500),
+  m: z.string().min(1).max(100),
+  p: z.record(z.string(), z.union([z.string(), z.number()])),
+  c: z.record(z.string(), z.unknown()).optional(),
+  n: z.string().optional(),
+  s: StyleSchema.optional(),
+});
+
+function toBase64Url(text: string): string {
+  let bin = "";
+  for (const b of new TextEncoder().encode(text)) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const bin = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+const isEmpty = (o: object | null | undefined) => !o || Object.keys(o).length === 0;
+
+/** The link payload for a chart; empty chart meta, note and style are left out. */
+export function encodePermalink({ query, plan, style }: Permalink): string {
+  const payload: z.input<typeof V1> = { q: query, m: plan.metricId, p: plan.params };
+  if (!isEmpty(plan.chart)) payload.c = plan.chart;
+  if (plan.note) payload.n = plan.note;
+  if (style && !isEmpty(style)) payload.s = style;
+  return `${VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/** A link payload back to the chart it describes; null when it isn't one this build can read. */
+export function decodePermalink(encoded: string | null | undefined): Permalink | null {
+  if (!encoded || encoded.length > MAX_ENCODED) return null;
+  const dot = encoded.indexOf(".");
+  if (dot < 0 || encoded.slice(0, dot) !== VERSION) return null;
+  try {
+    const parsed = V1.safeParse(JSON.parse(fromBase64Url(encoded.slice(dot + 1))));
+    if (!parsed.success) return null;
+    const { q, m, p, c, n, s } = parsed.data;
+    return {
+      query: q,
+      plan: { metricId: m, params: p, ...(c ? { chart: c } : {}), ...(n ? { note: n } : {}) },
+      style: s && !isEmpty(s) ? s : null,
+    };
+  } catch {
+    // Not base64 or not JSON
+    return null;
+  }
+}
+
+/** The page URL that reopens this chart, on the current origin and path. */
+export function permalinkUrl(link: Permalink, base: string): string {
+  const url = new URL(base);
+  url.search = "";
+  url.hash = "";
+  url.searchParams.set(PERMALINK_PARAM, encodePermalink(link));
+  return url.toString();
+}
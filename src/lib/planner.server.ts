@@ -0,0 +1,40 @@
+// src/lib/planner.server.ts
+// Planner lookups for server callers: the same indexes the /api/geo, /api/wdi,
+// /api/owid and /api/epa routes serve to the browser, called directly. Like the
+// routes, a failing lookup is "no match" (countries fall back to the quick table).
+// Server-only (do not import in client components).
+
+import "server-only";
+import { geoFromQuery, iso3FromQuery } from "@/lib/countryIndex";
+import { searchWdiIndicators } from "@/lib/wdiIndex";
+import { searchOwidCharts } from "@/lib/owidIndex";
+import { resolvePlace } from "@/lib/gazetteer";
+import { resolveCbsa } from "@/lib/fetchers/epa_aqi";
+import { quickClientFallbackISO, quickClientFallbackISOs, type PlannerLookups } from "@/lib/planner";
+
+async function orElse<T>(fn: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await fn();
+  } catch {
+    return fallback;
+  }
+}
+
+export const SERVER_LOOKUPS: PlannerLookups = {
+  country: (q) =>
+    orElse(async () => (await geoFromQuery(q))[0]?.code ?? (await iso3FromQuery(q)) ?? quickClientFallbackISO(q), quickClientFallbackISO(q)),
+  countries: (q) =>
+    orElse(async () => {
+      const codes = (await geoFromQuery(q)).map((m) => m.code);
+      return codes.length ? codes : quickClientFallbackISOs(q);
+    }, quickClientFallbackISOs(q)),
+  wdi: (q) => orElse(async () => (await searchWdiIndicators(q, 1))[0], undefined),
+  owid: (q) => orElse(async () => searchOwidCharts(q, 1)[0], undefined),
+  place: (q) =>
+    orElse(async () => {
+      const { place, candidates, ambiguous } = await resolvePlace(q);
+      return place ? { place, candidates: candidates.length ? candidates : [place], ambiguous } : { candidates: [], ambiguous: false };
+    }, { candidates: [], ambiguous: false }),
+  // Same default year as /api/epa/cbsa: last year's file is always published
+  cbsa: (q) => orElse(() => resolveCbsa(q, new Date().getFullYear() - 1, 5), { candidates: [], ambiguous: false }),
+};
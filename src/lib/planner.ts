@@ -0,0 +1,704 @@
+// src/lib/planner.ts
+// Deterministic query planner: turns the user's text into a Plan (metric id,
+// params, chart meta) with regex rules per source, index lookups for countries,
+// places, WDI indicators and OWID charts, and the registry's planner keywords as
+// a last resort. Pure: safe to import on client and server (lookups are passed in).
+
+import { PlanSchema } from "./schema";
+import type { Plan } from "./schema";
+import { statesFromQuery } from "./usStates";
+import { CATALOG } from "./catalog";
+import { matchMetricByKeywords } from "./sources";
+
+/* ---------------- lookups ---------------- */
+
+type WdiHit = { code: string; name: string; unit?: string; topic?: string; score: number };
+type OwidHit = { slug: string; title: string; topic?: string; score: number };
+type PlaceHit = { label: string; lat: number; lon: number; country: string; cbsa?: string };
+type PlaceLookup = { place?: PlaceHit; candidates: PlaceHit[]; ambiguous: boolean };
+type CbsaHit = { code: string; name: string; score?: number };
+type CbsaLookup = { match?: CbsaHit; candidates: CbsaHit[]; ambiguous: boolean };
+
+/**
+ * The index lookups plan() needs. In the browser they are our same-origin API
+ * routes (HTTP_LOOKUPS); server callers (the data API) pass the indexes
+ * directly (SERVER_LOOKUPS in planner.server.ts). Lookups never throw: a
+ * failure is "no match".
+ */
+export type PlannerLookups = {
+  country(q: string): Promise<string | undefined>;  // first country / aggregate named in the query
+  countries(q: string): Promise<string[]>;          // all of them, in query order
+  wdi(q: string): Promise<WdiHit | undefined>;      // best WDI indicator
+  owid(q: string): Promise<OwidHit | undefined>;    // best OWID Grapher chart
+  place(q: string): Promise<PlaceLookup>;           // gazetteer city (coordinates + CBSA)
+  cbsa(q: string): Promise<CbsaLookup>;             // EPA metro area
+};
+
+// Call our same-origin API route (server does OWID matching)
+async function toISO3FromQuery(q: string): Promise<string | undefined> {
+  try {
+    const res = await fetch(`/api/geo/iso3?q=${encodeURIComponent(q)}`, {
+      method: "GET",
+      cache: "no-store",
+    });
+    if (res.ok) {
+      const data = await res.json();
+      if (data?.iso3) return String(data.iso3).toUpperCase();
+    }
+  } catch {}
+  return quickClientFallbackISO(q);
+}
+
+// All countries in the query, in order ("India vs China vs Brazil" → IND, CHN, BRA)
+async function toISO3ListFromQuery(q: string): Promise<string[]> {
+  try {
+    const res = await fetch(`/api/geo/iso3?q=${encodeURIComponent(q)}`, {
+      method: "GET",
+      cache: "no-store",
+    });
+    if (res.ok) {
+      const data = await res.json();
+      if (Array.isArray(data?.iso3s) && data.iso3s.length) {
+        return data.iso3s.map((c: unknown) => String(c).toUpperCase());
+      }
+      if (data?.iso3) return [String(data.iso3).toUpperCase()];
+    }
+  } catch {}
+  return quickClientFallbackISOs(q);
+}
+
+/** World Bank `country` param: every country mentioned, as CSV (defaults to USA). */
+async function countriesParam(q: string, lookups: PlannerLookups): Promise<string> {
+  const list = await lookups.countries(q);
+  return list.length ? list.join(",") : "USA";
+}
+
+// Search the server-side WDI indicator index (code, name, unit, topic)
+async function searchWdiFromQuery(q: string): Promise<WdiHit | undefined> {
+  try {
+    const res = await fetch(`/api/wdi/search?q=${encodeURIComponent(q)}&limit=1`, {
+      method: "GET",
+      cache: "no-store",
+    });
+    if (res.ok) {
+      const data = await res.json();
+      const top = Array.isArray(data?.results) ? data.results[0] : undefined;
+      if (top?.code && typeof top.score === "number") return top as WdiHit;
+    }
+  } catch {}
+  return undefined;
+}
+
+// Search the bundled OWID Grapher chart list (slug, title, topic)
+async function searchOwidFromQuery(q: string): Promise<OwidHit | undefined> {
+  try {
+    const res = await fetch(`/api/owid/search?q=${encodeURIComponent(q)}&limit=1`, {
+      method: "GET",
+      cache: "no-store",
+    });
+    if (res.ok) {
+      const data = await res.json();
+      const top = Array.isArray(data?.results) ? data.results[0] : undefined;
+      if (top?.slug && typeof top.score === "number") return top as OwidHit;
+    }
+  } catch {}
+  return undefined;
+}
+
+// Resolve a city name via the server-side gazetteer (coordinates + CBSA)
+async function toPlaceFromQuery(q: string): Promise<PlaceLookup> {
+  try {
+    const res = await fetch(`/api/geo/place?q=${encodeURIComponent(q)}`, {
+      method: "GET",
+      cache: "no-store",
+    });
+    if (res.ok) {
+      const data = await res.json();
+      if (data?.place) {
+        return {
+          place: data.place as PlaceHit,
+          candidates: Array.isArray(data.candidates) ? data.candidates : [data.place],
+          ambiguous: !!data.ambiguous,
+        };
+      }
+    }
+  } catch {}
+  return { candidates: [], ambiguous: false };
+}
+
+/** "Showing Portland, OR. Also matches Portland, ME — add the state to pick another." */
+function placeNote(found: PlaceLookup): string | undefined {
+  if (!found.place || !found.ambiguous) return undefined;
+  const others = found.candidates.slice(1).map((c) => c.label).join("; ");
+  return `Showing ${found.place.label}. Also matches ${others} — add the state or country to pick another.`;
+}
+
+// Search EPA's CBSA (metro area) list by name words or code
+async function searchCbsaFromQuery(q: string): Promise<CbsaLookup> {
+  try {
+    const res = await fetch(`/api/epa/cbsa?q=${encodeURIComponent(q)}&limit=5`, {
+      method: "GET",
+      cache: "no-store",
+    });
+    if (res.ok) {
+      const data = await res.json();
+      return {
+        match: data?.match ?? undefined,
+        candidates: Array.isArray(data?.candidates) ? data.candidates : [],
+        ambiguous: !!data?.ambiguous,
+      };
+    }
+  } catch {}
+  return { candidates: [], ambiguous: false };
+}
+
+export const HTTP_LOOKUPS: PlannerLookups = {
+  country: toISO3FromQuery,
+  countries: toISO3ListFromQuery,
+  wdi: searchWdiFromQuery,
+  owid: searchOwidFromQuery,
+  place: toPlaceFromQuery,
+  cbsa: searchCbsaFromQuery,
+};
+
+/* ---------------- helpers ---------------- */
+
+/** CBSA for one place phrase: gazetteer city first, then EPA's own CBSA names. */
+async function cbsaFromQuery(q: string, lookups: PlannerLookups): Promise<{ cbsa?: string; note?: string }> {
+  const found = await lookups.place(q);
+  if (found.place?.cbsa) return { cbsa: found.place.cbsa, note: placeNote(found) };
+  if (found.place) return { note: `EPA AQI covers US metro areas only; ${found.place.label} isn't one.` };
+
+  const hit = await lookups.cbsa(q);
+  const top = hit.match ?? hit.candidates[0];
+  if (!top) return {};
+  if (!hit.ambiguous) return { cbsa: top.name };
+  const others = hit.candidates.slice(1).map((c) => c.name).join("; ");
+  return { cbsa: top.name, note: `Showing ${top.name}. Also matches ${others} — add the state to pick another.` };
+}
+
+/** Quick fallback so we don't silently default to USA when the country index is unavailable */
+const CLIENT_FALLBACK_PAIRS: Array<[RegExp, string]> = [
+  [/\bjapan\b|\bjpn\b/, "JPN"],
+  [/\bchina\b|\bchn\b|\bprc\b/, "CHN"],
+  [/\bindia\b|\bind\b/, "IND"],
+  [/\bunited\s+states\b|\busa\b|\bu\.?s\.?a?\.?\b|\bamerica\b/, "USA"],
+  [/\bunited\s+kingdom\b|\buk\b|\bu\.?k\.?|\bgreat\s+britain\b|\bengland\b|\bgbr\b/, "GBR"],
+  [/\bgermany\b|\bdeu\b/, "DEU"],
+  [/\bfrance\b|\bfra\b/, "FRA"],
+  [/\bcanada\b|\bcan\b/, "CAN"],
+  [/\bitaly\b|\bita\b/, "ITA"],
+  [/\bspain\b|\besp\b/, "ESP"],
+  [/\bbrazil\b|\bbra\b/, "BRA"],
+  [/\bmexico\b|\bmex\b/, "MEX"],
+  [/\brussia\b|\brussian\s+federation\b|\brus\b/, "RUS"],
+  [/\bsouth\s+korea\b|\brepublic\s+of\s+korea\b|\bkor\b/, "KOR"],
+  [/\bsouth\s+africa\b|\bzaf\b/, "ZAF"],
+  [/\bnigeria\b|\bnga\b/, "NGA"],
+  [/\begypt\b|\begy\b/, "EGY"],
+  [/\bturkey\b|\bturkiye\b|\btur\b/, "TUR"],
+  [/\bindonesia\b|\bidn\b/, "IDN"],
+  [/\bpakistan\b|\bpak\b/, "PAK"],
+  [/\biran\b|\birn\b/, "IRN"],
+  [/\btaiwan\b|\btwn\b/, "TWN"],
+  [/\bhong\s*kong\b|\bhkg\b/, "HKG"],
+  [/\bnetherlands\b|\bnld\b|\bholland\b/, "NLD"],
+  [/\bswitzerland\b|\bche\b/, "CHE"],
+  [/\bsweden\b|\bswe\b/, "SWE"],
+  [/\bnorway\b|\bnor\b/, "NOR"],
+  [/\baustralia\b|\baus\b/, "AUS"],
+];
+
+export function quickClientFallbackISO(q: string): string | undefined {
+  const s = String(q).toLowerCase();
+
+  for (const [re, iso] of CLIENT_FALLBACK_PAIRS) if (re.test(s)) return iso;
+
+  const isoToken = s.match(/\b[a-z]{3}\b/i);
+  return isoToken ? isoToken[0].toUpperCase() : undefined;
+}
+
+/** Every fallback match, in the order it appears in the query. */
+export function quickClientFallbackISOs(q: string): string[] {
+  const s = String(q).toLowerCase();
+  const hits: Array<[number, string]> = [];
+  for (const [re, iso] of CLIENT_FALLBACK_PAIRS) {
+    const m = re.exec(s);
+    if (m) hits.push([m.index, iso]);
+  }
+  hits.sort((a, b) => a[0] - b[0]);
+  return Array.from(new Set(hits.map(([, iso]) => iso)));
+}
+
+function extractYearsInclusive(q: string): { start?: number; end?: number } {
+  const s = q.toLowerCase();
+  const now = new Date().getFullYear();
+
+  const range = s.match(/(\d{4})\s*[-–—]\s*(\d{4}|present|now)/);
+  if (range) {
+    let a = Number(range[1]);
+    let b = /present|now/.test(range[2]) ? now : Number(range[2]);
+    if (!Number.isFinite(a) || !Number.isFinite(b)) return {};
+    if (a > b) [a, b] = [b, a];
+    b = Math.min(b, now);
+    return { start: a, end: b };
+  }
+  const since = s.match(/\bsince\s+(\d{4})\b/);
+  if (since) {
+    const a = Number(since[1]);
+    if (Number.isFinite(a)) return { start: a, end: now };
+  }
+  const last = s.match(/\blast\s+(\d+)\s+years?\b/);
+  if (last) {
+    const n = Number(last[1]);
+    if (Number.isFinite(n) && n > 0) return { start: now - (n - 1), end: now };
+  }
+  // Single year like "1990" (but prefer explicit patterns above)
+  const single = s.match(/\b(19|20)\d{2}\b/);
+  if (single) {
+    const y = Number(single[0]);
+    if (Number.isFinite(y)) return { start: y, end: y };
+  }
+  return {};
+}
+
+function extractLatLon(q: string): { lat?: number; lon?: number } {
+  const m = q.match(/(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)/);
+  if (!m) return {};
+  return { lat: Number(m[1]), lon: Number(m[2]) };
+}
+
+/* ---------------- weather helpers ---------------- */
+
+const WEATHER_WORDS: Array<[RegExp, string]> = [
+  [/\b(precip\w*|rain(fall|s|y)?|snowfall)\b/, "precipitation"],
+  [/\bwind(\s*speed)?s?\b|\bgusts?\b/, "wind_speed"],
+  [/\bhumid(ity)?\b/, "humidity"],
+  [/\b(temps?|temperatures?)\b|°\s?[cf]\b/, "temperature"],
+];
+
+// Words that only make sense for a weather series ("hourly wind", "rain forecast")
+const WEATHER_CUES = /\b(weather|forecast|hourly|daily|today|tomorrow|tonight|next\s+\d+\s+days?)\b/;
+
+function extractWeatherVariable(q: string): string | undefined {
+  for (const [re, v] of WEATHER_WORDS) if (re.test(q)) return v;
+  return undefined;
+}
+
+/** An Open-Meteo plan; years switch to the historical archive, otherwise forecast. */
+function weatherPlan(q: string, variable: string, coords: { lat?: number; lon?: number }, found: PlaceLookup | undefined, start?: number, end?: number): Plan {
+  const place = found?.place;
+  const stats = extractWeatherStats(q);
+  const resolution = /\bhourly\b/.test(q) ? "hourly" : (/\bdaily\b/.test(q) || stats) ? "daily" : undefined;
+  const days = q.match(/\bnext\s+(\d+)\s+days?\b/);
+  return PlanSchema.parse({
+    metricId: "temp_hourly",
+    params: {
+      lat: coords.lat ?? place?.lat ?? 40.7128,
+      lon: coords.lon ?? place?.lon ?? -74.0060,
+      ...(place ? { place: place.label } : {}),
+      variable,
+      ...(stats ? { stats } : {}),
+      ...(resolution ? { resolution } : {}),
+      ...(days ? { days: Number(days[1]) } : {}),
+      ...(start ? { start } : {}),
+      ...(end ? { end } : {}),
+    },
+    chart: { mark: "line" },
+    ...(found && placeNote(found) ? { note: placeNote(found) } : {})
+  });
+}
+
+/** Daily aggregates asked for ("daily highs and lows", "average", "max") as CSV. */
+function extractWeatherStats(q: string): string {
+  const stats: string[] = [];
+  if (/\b(max(imum)?|highs?|highest)\b/.test(q)) stats.push("max");
+  if (/\b(min(imum)?|lows?|lowest)\b/.test(q)) stats.push("min");
+  if (/\b(mean|average|avg)\b/.test(q)) stats.push("mean");
+  if (/\b(total|sum)\b/.test(q)) stats.push("sum");
+  return stats.join(",");
+}
+
+/* ---------------- air quality helpers ---------------- */
+
+function aqiBreakdownMetric(q: string): "aqi_category_days_cbsa" | "aqi_pollutant_days_cbsa" | undefined {
+  if (/\b(pollutants?|defining|drove|drives|driv(er|ers|ing)|ozone|pm\s*2\.?5|pm\s*10|no2|so2)\b/.test(q)) return "aqi_pollutant_days_cbsa";
+  if (/\b(categor(y|ies)|unhealthy|good\s+days|days\s+(per|by|in))\b/.test(q)) return "aqi_category_days_cbsa";
+  return undefined;
+}
+
+/* ---------------- emissions helpers ---------------- */
+
+const CO2_FUELS = ["coal", "oil", "gas", "cement", "flaring", "other"] as const;
+
+function co2FuelColumn(fuel: string, perCapita: boolean): string {
+  if (fuel === "other") return perCapita ? "other_co2_per_capita" : "other_industry_co2";
+  return perCapita ? `${fuel}_co2_per_capita` : `${fuel}_co2`;
+}
+
+// Emissions phrasing → owid-co2-data.csv column(s); several columns mean a "by fuel" breakdown
+function co2Columns(q: string): string[] {
+  const perCapita = /\bper\s*(capita|person|head)\b/.test(q);
+  if (/\bby\s+(fuel|source)\b|\bfuel\s+(mix|breakdown)\b|\bbreak\s*down\b|\bbreakdown\b/.test(q)) {
+    return CO2_FUELS.map((f) => co2FuelColumn(f, perCapita));
+  }
+  if (/\b(ghg|greenhouse)\b/.test(q)) return [perCapita ? "ghg_per_capita" : "total_ghg"];
+  if (/\b(methane|ch4)\b/.test(q)) return [perCapita ? "methane_per_capita" : "methane"];
+  if (/\b(nitrous\s+oxide|n2o)\b/.test(q)) return [perCapita ? "nitrous_oxide_per_capita" : "nitrous_oxide"];
+  const fuel = q.match(/\b(coal|oil|gas|cement|flaring)\b/)?.[1];
+  if (fuel) return [co2FuelColumn(fuel, perCapita)];
+  if (/\bconsumption\b/.test(q)) return [perCapita ? "consumption_co2_per_capita" : "consumption_co2"];
+  if (/\bland[-\s]?use\b/.test(q)) return ["co2_including_luc"];
+  if (/\bcumulative\b/.test(q)) return [/\bshare\b|%|percent/.test(q) ? "share_global_cumulative_co2" : "cumulative_co2"];
+  if (/\bshare\b|%|percent|\bglobal\s+total\b/.test(q)) return ["share_global_co2"];
+  if (/\bper\s+(gdp|dollar)\b|\bintensity\b/.test(q)) return ["co2_per_gdp"];
+  return [perCapita ? "co2_per_capita" : "co2"];
+}
+
+/* ---------------- BLS helpers ---------------- */
+
+// Phrases → BLS registry keys / groups (src/lib/data/bls_series.json); first match wins
+const BLS_PHRASES: Array<[RegExp, string]> = [
+  [/\bcore\s+(cpi|inflation|consumer\s+prices?)\b|\bless\s+food\s+and\s+energy\b/, "cpi_core"],
+  [/\bheadline\s+(cpi|inflation)\b|\bcpi[-\s]?u\b|\bconsumer\s+price\s+index\b/, "cpi_all_items"],
+  [/\bshelter\s+(cpi|prices?|inflation)\b|\b(cpi|inflation)\s+shelter\b/, "cpi_shelter"],
+  [/\bnon[-\s]?farm\b|\bpayrolls?\b|\bjobs\s+report\b/, "nonfarm_payrolls"],
+  [/\b(average|avg\.?)\s+hourly\s+(earnings|wages?)\b|\bhourly\s+earnings\b/, "avg_hourly_earnings"],
+  [/\b(average|avg\.?)\s+weekly\s+hours\b/, "avg_weekly_hours"],
+  [/\b(labor|labour)\s+force\s+participation\b|\bparticipation\s+rate\b|\blfpr\b/, "labor_force_participation"],
+  [/\bemployment[-\s]to[-\s]population\b|\bemployment[-\s]population\s+ratio\b|\bepop\b/, "employment_population_ratio"],
+];
+
+function blsSeriesFromQuery(q: string): string | undefined {
+  for (const [rx, key] of BLS_PHRASES) if (rx.test(q)) return key;
+  if (!/\b(unemployment|jobless)\b/.test(q) || mentionsByRace(q) || extractRaces(q).length) return undefined;
+  const men = /\b(men|male|males)\b/.test(q);
+  const women = /\b(women|female|females)\b/.test(q);
+  if (/\bby\s+(sex|gender)\b/.test(q) || (men && women)) return "sex";
+  if (women) return "unemployment_women";
+  if (men) return "unemployment_men";
+  if (/\bby\s+age\b|\bage\s+groups?\b/.test(q)) return "age";
+  if (/\b(youth|teens?|teenage)\b/.test(q)) return "unemployment_16_19";
+  if (/\bby\s+(education|degree|schooling|educational\s+attainment)\b/.test(q)) return "education";
+  if (/\b(college\s+grad(uate)?s?|bachelor'?s)\b/.test(q)) return "unemployment_bachelors";
+  return undefined;
+}
+
+// "not seasonally adjusted", "annual average", "quarterly", "monthly" → BLS plan params
+function blsTransformParams(q: string): { adjustment?: "sa" | "nsa"; frequency?: "monthly" | "quarterly" | "annual" } {
+  const out: { adjustment?: "sa" | "nsa"; frequency?: "monthly" | "quarterly" | "annual" } = {};
+  if (/\b(not|non)[-\s]?seasonally[-\s]adjusted\b|\bunadjusted\b|\bnsa\b/.test(q)) out.adjustment = "nsa";
+  else if (/\bseasonally[-\s]adjusted\b/.test(q)) out.adjustment = "sa";
+  if (/\b(annual|yearly|annualized)\b|\bper\s+year\b|\bby\s+year\b/.test(q)) out.frequency = "annual";
+  else if (/\bquarterly\b|\bby\s+quarter\b/.test(q)) out.frequency = "quarterly";
+  else if (/\bmonthly\b/.test(q)) out.frequency = "monthly";
+  return out;
+}
+
+/* ---------------- education helpers (Urban Institute) ---------------- */
+
+type UrbanMetricId =
+  | "urban_enrollment_grade"
+  | "urban_enrollment_race"
+  | "urban_enrollment_state"
+  | "urban_ipeds_completions"
+  | "urban_school_finance";
+
+function urbanMetric(q: string, stateCount: number): UrbanMetricId | undefined {
+  if (/\bipeds\b|\b(degrees?|certificates?|completions?|credentials?)\b.*\b(awarded|conferred|earned|granted)\b|\bcollege\s+(completions?|degrees?|graduates?)\b|\b(bachelor'?s|associate'?s?|master'?s)\s+degrees\b/.test(q)) {
+    return "urban_ipeds_completions";
+  }
+  if (/\b(finances?|spending|revenues?|expenditures?|budgets?|funding)\b/.test(q) && /\b(schools?|school\s+districts?|k-?12|education)\b/.test(q)) {
+    return "urban_school_finance";
+  }
+  if (/\benroll(ment|ed)?\b/.test(q) && /\b(schools?|k-?12|students?|pupils?|grade|kindergarten|pre-?k)\b/.test(q)) {
+    if (mentionsByRace(q) || extractRaces(q).length) return "urban_enrollment_race";
+    if (/\bgrade\s*\d{1,2}\b|\b\d{1,2}(st|nd|rd|th)\s+grade\b|\bkindergarten\b|\bpre-?k\b/.test(q)) return "urban_enrollment_grade";
+    if (/\bby\s+state\b/.test(q) || stateCount > 1) return "urban_enrollment_state";
+    return "urban_enrollment_grade";
+  }
+  return undefined;
+}
+
+function extractGrade(q: string): number | undefined {
+  if (/\bpre-?k\b|\bpre-?kindergarten\b/.test(q)) return -1;
+  if (/\bkindergarten\b/.test(q)) return 0;
+  const m = q.match(/\bgrade\s*(\d{1,2})\b|\b(\d{1,2})(?:st|nd|rd|th)\s+grade\b/);
+  const g = m ? Number(m[1] ?? m[2]) : undefined;
+  return g != null && g >= 1 && g <= 12 ? g : undefined;
+}
+
+function financeMeasure(q: string): string {
+  if (/\bfederal\b/.test(q)) return "rev_fed_total";
+  if (/\bstate\s+(revenues?|funding|aid)\b/.test(q)) return "rev_state_total";
+  if (/\blocal\s+(revenues?|funding)\b/.test(q)) return "rev_local_total";
+  if (/\b(revenues?|funding)\b/.test(q)) return "rev_total";
+  if (/\binstruction(al)?\b/.test(q)) return "exp_current_instruction_total";
+  return "exp_total";
+}
+
+/* ---------------- race helpers ---------------- */
+
+const RACE_WORDS: Record<string, RegExp> = {
+  white: /\bwhite(s)?\b/i,
+  black: /\b(black|african[-\s]?american)s?\b/i,
+  asian: /\b(aapi|asian(?:[-\s]?american)?)s?\b/i,
+  hispanic: /\b(hispanic|latino|latina|latinx)\b/i,
+};
+
+function extractRaces(q: string): string[] {
+  const found = Object.entries(RACE_WORDS)
+    .filter(([, rx]) => rx.test(q))
+    .map(([race]) => race);
+  return found;
+}
+
+function mentionsByRace(q: string): boolean {
+  return /\bby\s*race\b/i.test(q);
+}
+
+/* --------------- deterministic planner --------------- */
+
+// Minimum index score for a keyword match to count as a WDI indicator
+const WDI_MIN_SCORE = 2;
+
+/**
+ * Deterministic planner: query text → a validated Plan (metric, params, chart).
+ * `lookups` resolve countries, places and index searches (API routes by default).
+ */
+export async function plan(query: string, lookups: PlannerLookups = HTTP_LOOKUPS): Promise<Plan> {
+  const q = query.toLowerCase();
+  const { start, end } = extractYearsInclusive(q);
+
+  // Weather (Open-Meteo): temperature, precipitation, wind speed, humidity.
+  // Coordinates, a city or a forecast-style cue make it weather right away;
+  // otherwise "wind power generation" or "global temperature anomaly" get to
+  // the OWID/WDI indexes first and weather is the fallback.
+  const weatherVar = extractWeatherVariable(q);
+  let weather: (() => Plan) | undefined;
+  if (weatherVar) {
+    const { lat, lon } = extractLatLon(query);
+    const hasCoords = lat != null && lon != null;
+    // Explicit coordinates win; otherwise look up a city name ("weather in Denver")
+    const found = hasCoords ? undefined : await lookups.place(query);
+    weather = () => weatherPlan(q, weatherVar, { lat, lon }, found, start, end);
+    if (hasCoords || found?.place || WEATHER_CUES.test(q)) return weather();
+  }
+
+  // Population (World Bank)
+  if (/(^|\s)(population|pop)(\s|$)/.test(q)) {
+    const country = await countriesParam(query, lookups);
+    return PlanSchema.parse({
+      metricId: "population_total",
+      params: { country, ...(start ? { start } : {}), ...(end ? { end } : {}) },
+      chart: { mark: "line", title: "Population" }
+    });
+  }
+
+  // GDP per capita (World Bank)
+  if (/(gdp per capita|gdp pc|income per capita)/.test(q)) {
+    const country = await countriesParam(query, lookups);
+    return PlanSchema.parse({
+      metricId: "gdp_per_capita",
+      params: { country, ...(start ? { start } : {}), ...(end ? { end } : {}) },
+      chart: { mark: "line", title: "GDP per capita" }
+    });
+  }
+
+  // BLS series (US only): CPI, payrolls, participation, earnings, unemployment by sex/age/education
+  const blsSeries = blsSeriesFromQuery(q);
+  if (blsSeries) {
+    const isos = await lookups.countries(query);
+    if (isos.every((c) => c === "USA")) {
+      // Title and unit come from the BLS registry at fetch time
+      return PlanSchema.parse({
+        metricId: "bls_series",
+        params: { series: blsSeries, ...blsTransformParams(q), ...(start ? { start } : {}), ...(end ? { end } : {}) },
+        chart: { mark: "line" }
+      });
+    }
+  }
+
+  // US education (Urban Institute Education Data API): enrollment by grade/race/state, IPEDS awards, district finance
+  {
+    const states = statesFromQuery(query);
+    const metricId = urbanMetric(q, states.length);
+    if (metricId && (states.length || /\b(us|u\.s\.|public\s+schools?|school\s+districts?|ipeds)\b/.test(q))) {
+      const notes: string[] = [];
+      let state = states.map((s) => s.code).join(",");
+      if (!state) {
+        state = "CA";
+        notes.push("Urban Institute education data is charted by state; showing California.");
+      } else if (metricId === "urban_enrollment_race" && states.length > 1) {
+        state = states[0].code;
+        notes.push(`Enrollment by race charts one state at a time; showing ${states[0].name}.`);
+      }
+      const grade = extractGrade(q);
+      // Title and unit come from the Urban metric at fetch time
+      return PlanSchema.parse({
+        metricId,
+        params: {
+          state,
+          ...(grade != null && metricId !== "urban_enrollment_state" ? { grade } : {}),
+          ...(metricId === "urban_school_finance" ? { measure: financeMeasure(q) } : {}),
+          ...(start ? { start } : {}),
+          ...(end ? { end } : {}),
+        },
+        chart: { mark: "line" },
+        ...(notes.length ? { note: notes.join(" ") } : {})
+      });
+    }
+  }
+
+  // Inflation CPI (World Bank)
+  if (/(^|\s)(inflation|cpi)(\s|$)/.test(q)) {
+    const country = await countriesParam(query, lookups);
+    return PlanSchema.parse({
+      metricId: "inflation_cpi_pct",
+      params: { country, ...(start ? { start } : {}), ...(end ? { end } : {}) },
+      chart: { mark: "line", title: "Inflation (CPI %)" }
+    });
+  }
+
+  // ==== Unemployment by race (BLS)
+  if (/(unemployment|jobless|unemploy)/.test(q) && (mentionsByRace(q) || extractRaces(q).length > 0)) {
+    const racesList = extractRaces(q);
+    const racesCsv =
+      mentionsByRace(q) && racesList.length === 0
+        ? "white,black,asian,hispanic"
+        : racesList.join(",");
+
+    // With NSA / annual / quarterly the fetcher's title says which transformation was applied
+    const transform = blsTransformParams(q);
+    return PlanSchema.parse({
+      metricId: "unemployment_rate_by_race_us",
+      params: {
+        races: racesCsv || "white,black,asian,hispanic",
+        ...transform,
+        ...(start ? { start } : {}),
+        ...(end ? { end } : {})
+      },
+      chart: { mark: "line", ...(Object.keys(transform).length ? {} : { title: "Unemployment rate by race (US)" }) }
+    });
+  }
+
+  // Air Quality (EPA AQI): one series per metro area ("AQI Phoenix vs Denver 2023")
+  if (/(aqi|air\s*quality)/.test(q)) {
+    const parts = query.split(/\s+(?:vs\.?|versus|and|&)\s+|\s*;\s*/i).filter((s) => s.trim());
+    const cbsas: string[] = [];
+    const notes: string[] = [];
+    for (const part of parts) {
+      const { cbsa, note } = await cbsaFromQuery(part, lookups);
+      if (cbsa && !cbsas.includes(cbsa)) cbsas.push(cbsa);
+      if (note) notes.push(note);
+    }
+    if (!cbsas.length) notes.push("Showing New York.");
+
+    // "Days per AQI category" / "which pollutant drove the AQI": yearly day counts as stacked bars
+    const breakdown = aqiBreakdownMetric(q);
+    if (breakdown) {
+      if (cbsas.length > 1) notes.push(`Breakdowns chart one metro area at a time; showing ${cbsas[0]}.`);
+      return PlanSchema.parse({
+        metricId: breakdown,
+        params: { cbsa: cbsas[0] ?? "New York-Newark-Jersey City, NY-NJ-PA", ...(start ? { start } : {}), ...(end ? { end } : {}) },
+        chart: { mark: "bar", y: { title: "Days" } },
+        ...(notes.length ? { note: notes.join(" ") } : {})
+      });
+    }
+
+    return PlanSchema.parse({
+      metricId: "aqi_daily_cbsa",
+      params: { cbsa: cbsas.length ? cbsas.join("; ") : "New York-Newark-Jersey City, NY-NJ-PA", ...(start ? { start } : {}), ...(end ? { end } : {}) },
+      chart: { mark: "line" },
+      ...(notes.length ? { note: notes.join(" ") } : {})
+    });
+  }
+
+  // Life expectancy (OWID)
+  if (/(life\s*expectancy)/.test(q)) {
+    const iso = (await lookups.country(query)) ?? "USA";
+    return PlanSchema.parse({
+      metricId: "life_expectancy",
+      params: { country: iso, ...(start ? { start } : {}), ...(end ? { end } : {}) },
+      chart: { mark: "line", title: "Life expectancy" }
+    });
+  }
+
+  // CO2 and other emissions (OWID CO₂ dataset): per capita, share, by fuel, methane, ...
+  if (/(co2|carbon\s+(dioxide\s+)?emissions?|\b(coal|oil|gas|cement|flaring)\s+emissions?|\bmethane\b|nitrous\s+oxide|greenhouse\s+gas|\bghg\b)/.test(q)) {
+    const columns = co2Columns(q);
+    // Title and unit come from the column(s) at fetch time
+    if (columns.length > 1) {
+      const isos = await lookups.countries(query);
+      return PlanSchema.parse({
+        metricId: "co2_by_fuel",
+        params: { country: isos[0] ?? "USA", column: columns.join(","), ...(start ? { start } : {}), ...(end ? { end } : {}) },
+        chart: { mark: "area" },
+        ...(isos.length > 1 ? { note: `Fuel breakdowns chart one country at a time; showing ${isos[0]}.` } : {})
+      });
+    }
+    const country = await countriesParam(query, lookups);
+    return PlanSchema.parse({
+      metricId: "co2_emissions",
+      params: { country, column: columns[0], ...(start ? { start } : {}), ...(end ? { end } : {}) },
+      chart: { mark: "line" }
+    });
+  }
+
+  // Any other World Bank WDI series or OWID Grapher chart, found by keyword.
+  // The stronger match wins (WDI on ties); naming OWID or pasting a Grapher URL picks OWID.
+  {
+    const [hit, chart] = await Promise.all([lookups.wdi(query), lookups.owid(query)]);
+    const wdiOk = !!hit && hit.score >= WDI_MIN_SCORE;
+    const owidOk = !!chart && chart.score >= WDI_MIN_SCORE;
+    const wantsOwid = /\b(owid|our\s+world\s+in\s+data)\b|grapher\//.test(q);
+
+    if (owidOk && (wantsOwid || !wdiOk || chart!.score > hit!.score)) {
+      const country = await countriesParam(query.replace(/\S*ourworldindata\.org\S*/gi, " "), lookups);
+      // Title comes from the chart's Grapher metadata at fetch time
+      return PlanSchema.parse({
+        metricId: "owid_grapher",
+        params: { slug: chart!.slug, country, ...(start ? { start } : {}), ...(end ? { end } : {}) },
+        chart: { mark: "line" }
+      });
+    }
+    if (wdiOk) {
+      const country = await countriesParam(query, lookups);
+      return PlanSchema.parse({
+        metricId: "worldbank_indicator",
+        params: { indicator: hit!.code, country, ...(start ? { start } : {}), ...(end ? { end } : {}) },
+        chart: { mark: "line", title: hit!.name, ...(hit!.unit ? { y: { title: hit!.unit } } : {}) }
+      });
+    }
+  }
+
+  // A weather word with no city, coordinates or index match ("rain"): New York unless a place is named
+  if (weather) return weather();
+
+  // Planner keywords declared by the sources (src/lib/sources): a source added
+  // to the registry is reachable from free text before anyone writes a rule here.
+  {
+    const hit = matchMetricByKeywords(query);
+    if (hit) {
+      const def = CATALOG[hit.metricId];
+      const country = def.defaultParams && "country" in def.defaultParams ? await countriesParam(query, lookups) : undefined;
+      return PlanSchema.parse({
+        metricId: hit.metricId,
+        params: { ...(country ? { country } : {}), ...(start ? { start } : {}), ...(end ? { end } : {}) },
+        chart: { mark: def.chart?.mark ?? "line" },
+        note: `Matched by keyword (${hit.keywords.join(", ")}); other settings use the defaults.`
+      });
+    }
+  }
+
+  // Default behavior: if we can't confidently map the query to a known
+  // metric, throw an explanatory error so the UI can surface a helpful
+  // message instead of silently showing an unrelated default metric.
+  // Previously this returned `unemployment_rate`, which led to surprising
+  // charts when parsing failed.
+  {
+    throw new Error(
+      "Could not understand the query. Try a clearer phrase (e.g. 'GDP per capita India 2000-2020') or pick an example from the suggestions."
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// src/lib/rateLimit.ts
+// Per-client request limits for the public data API: a fixed window per client
+// key (the caller's IP as the trusted proxy saw it), kept in memory. Each server instance counts on its own;
+// put a shared limiter in front when running several.
+// Server-only (do not import in client components).
+
+import "server-only";
+
+export type RateLimitResult = {
+  ok: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;  // epoch ms when the client's window restarts
+};
+
+export type RateLimiter = { check(key: string): RateLimitResult };
+
+const envNumber = (name: string, fallback: number) => {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+/**
+ * `limit` requests per `windowSeconds` per key. At most `maxClients` windows are
+ * tracked; past that, expired windows go first, then the oldest.
+ */
+export function rateLimiter(
+  limit = envNumber("LOOKABLE_API_RATE_LIMIT", 60),
+  windowSeconds = envNumber("LOOKABLE_API_RATE_WINDOW", 60),
+  maxClients = 10_000
+): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const prune = (now: number) => {
+    for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+    while (windows.size >= maxClients) windows.delete(windows.keys().next().value!);
+  };
+
+  return {
+    check(key) {
+      const now = Date.now();
+      let w = windows.get(key);
+      if (!w || w.resetAt <= now) {
+        windows.delete(key);
+        if (windows.size >= maxClients) prune(now);
+        w = { count: 0, resetAt: now + windowSeconds * 1000 };
+        windows.set(key, w);
+      }
+      w.count++;
+      return { ok: w.count <= limit, limit, remaining: Math.max(0, limit - w.count), resetAt: w.resetAt };
+    },
+  };
+}
+
+/**
+ * The client key for a request: the X-Forwarded-For hop added by the outermost
+ * trusted proxy. Clients can send X-Forwarded-For themselves, so the first hop
+ * is theirs to pick; each proxy appends the address it saw, so with
+ * `LOOKABLE_TRUSTED_PROXIES` proxies in front (default 1) the entry that many
+ * places from the end is the one no client controls. Fewer hops than that (or
+ * 0 proxies) share one key.
+ */
+export function clientKey(req: Request): string {
+  const raw = Number(process.env.LOOKABLE_TRUSTED_PROXIES ?? 1);
+  const depth = Number.isInteger(raw) && raw >= 0 ? raw : 1;
+  const hops = (req.headers.get("x-forwarded-for") ?? "").split(",").map((h) => h.trim()).filter(Boolean);
+  return (depth > 0 && hops[hops.length - depth]) || "anonymous";
+}
@@ -0,0 +1,210 @@
+// src/lib/render.ts
+// Headless chart rendering for images (slides, LMS pages, email digests): a
+// Vega-Lite spec gets the same patches as in the browser (patchAll), is drawn
+// to SVG by Vega without a DOM, gets the provenance line as a footer, and is
+// rasterized to PNG by resvg (WebAssembly, no native canvas).
+// Server-only (do not import in client components).
+
+import "server-only";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { VisualizationSpec } from "vega-embed";
+import { InvalidParamsError } from "@/lib/errors";
+import type { RunResult } from "@/lib/schema";
+import { patchAll } from "@/lib/spec";
+
+export const RENDER_FORMATS = ["svg", "png"] as const;
+export type RenderFormat = (typeof RENDER_FORMATS)[number];
+
+export const RENDER_CONTENT_TYPE: Record<RenderFormat, string> = {
+  svg: "image/svg+xml; charset=utf-8",
+  png: "image/png",
+};
+
+export type RenderOptions = {
+  width?: number;  // plot size in px (the footer adds to the height)
+  height?: number;
+  scale?: number;  // PNG pixel ratio, e.g. 2 for slides
+  provenance?: Pick<RunResult["provenance"], "source" | "url" | "license" | "note"> | null;
+};
+
+export const DEFAULT_SIZE = { width: 640, height: 320 };
+
+// Largest PNG drawn, in output pixels (width × height × scale²): 16 MP is 64 MB of RGBA
+export const MAX_PIXELS = 16_000_000;
+
+// resvg sees no system fonts; Next ships Noto Sans (Latin). LOOKABLE_RENDER_FONT
+// points at another TTF/OTF, e.g. one with CJK glyphs.
+const NODE_MODULES = path.join(process.cwd(), "node_modules");
+const FONT_FILE = process.env.LOOKABLE_RENDER_FONT || path.join(NODE_MODULES, "next", "dist", "compiled", "@vercel", "og", "noto-sans-v27-latin-regular.ttf");
+const WASM_FILE = path.join(NODE_MODULES, "@resvg", "resvg-wasm", "index_bg.wasm");
+
+/* ---------------- SVG ---------------- */
+
+const FOOTER_FONT_SIZE = 11;
+const FOOTER_LINE = 15;
+const FOOTER_PAD = 8;
+
+const escapeXml = (s: string) => s.replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+
+/** Cut a line to roughly `width` px (SVG can't measure text, so ~0.55em per character). */
+function fitLine(s: string, width: number): string {
+  const max = Math.max(10, Math.floor(width / (FOOTER_FONT_SIZE * 0.55)));
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+/** The page's provenance line, split for the footer: source and license, URL, note. */
+function footerLines(prov: NonNullable<RenderOptions["provenance"]>): string[] {
+  return [
+    `Source: ${prov.source}${prov.license ? ` · License: ${prov.license}` : ""}`,
+    prov.url,
+    ...(prov.note ? [prov.note] : []),
+  ].filter(Boolean);
+}
+
+/** The root `<svg>` tag and its width/height attributes (NaN when missing). */
+function svgRoot(svg: string) {
+  const root = /<svg\b[^>]*>/.exec(svg);
+  const width = Number(/\swidth="([\d.]+)"/.exec(root?.[0] ?? "")?.[1]);
+  const height = Number(/\sheight="([\d.]+)"/.exec(root?.[0] ?? "")?.[1]);
+  return { root, width, height };
+}
+
+/** Grows the SVG Vega drew by a footer band with the provenance lines. */
+function withFooter(svg: string, lines: string[], background: string): string {
+  const { root, width, height } = svgRoot(svg);
+  if (!root || !Number.isFinite(width) || !Number.isFinite(height) || !lines.length) return svg;
+
+  const footer = FOOTER_PAD * 2 + lines.length * FOOTER_LINE;
+  const total = height + footer;
+  const tag = root[0]
+    .replace(/\sheight="[\d.]+"/, ` height="${total}"`)
+    .replace(/\sviewBox="[^"]*"/, ` viewBox="0 0 ${width} ${total}"`);
+  const text = lines
+    .map((l, i) => `<text x="${FOOTER_PAD}" y="${height + FOOTER_PAD + (i + 1) * FOOTER_LINE - 4}">${escapeXml(fitLine(l, width - FOOTER_PAD * 2))}</text>`)
+    .join("");
+  const band =
+    `<g class="lookable-footer"><rect x="0" y="${height}" width="${width}" height="${footer}" fill="${escapeXml(background)}"></rect>` +
+    `<g font-family="sans-serif" font-size="${FOOTER_FONT_SIZE}" fill="#555">${text}</g></g>`;
+  return svg.replace(root[0], tag).replace(/<\/svg>\s*$/, `${band}</svg>`);
+}
+
+/* ---------------- Data ---------------- */
+
+/**
+ * Where a posted spec asks Vega to load data itself: `data.url` at any level
+ * (layers, concat, facet, lookup's `from.data`) and `datasets` entries that
+ * aren't inline rows. Returned as JSON paths, e.g. `layer[0].data.url`; the
+ * route only takes specs with inline `values`.
+ */
+export function externalDataPaths(spec: unknown): string[] {
+  const found: string[] = [];
+  const walk = (node: unknown, at: string) => {
+    if (Array.isArray(node)) return node.forEach((n, i) => walk(n, `${at}[${i}]`));
+    if (!node || typeof node !== "object") return;
+    for (const [key, value] of Object.entries(node)) {
+      const here = at ? `${at}.${key}` : key;
+      if (key === "data" && value && typeof value === "object" && "url" in value) found.push(`${here}.url`);
+      else if (key === "datasets" && value && typeof value === "object") {
+        for (const [name, rows] of Object.entries(value)) if (!Array.isArray(rows)) found.push(`${here}.${name}`);
+      } else walk(value, here);
+    }
+  };
+  walk(spec, "");
+  return found;
+}
+
+/** Drops `href` channels and mark properties in place: an image has nothing to click, so links are left out. */
+function stripLinks(node: unknown) {
+  if (Array.isArray(node)) return node.forEach(stripLinks);
+  if (!node || typeof node !== "object") return;
+  for (const [key, value] of Object.entries(node)) {
+    if ((key === "encoding" || key === "mark") && value && typeof value === "object") delete (value as Record<string, unknown>).href;
+    stripLinks(value);
+  }
+}
+
+/** The spec as SVG: patched like the browser's, sized, with the provenance footer. */
+export async function renderSvg(spec: VisualizationSpec, opts: RenderOptions = {}): Promise<string> {
+  const [vegaLite, vega] = await Promise.all([import("vega-lite"), import("vega")]);
+  const own = structuredClone(spec);
+  stripLinks(own);
+  // Pie/donut specs have no axes, but width/height still size the view
+  const vl = patchAll({ ...DEFAULT_SIZE, ...own, ...(opts.width ? { width: opts.width } : {}), ...(opts.height ? { height: opts.height } : {}) } as VisualizationSpec);
+  const background = ((vl as { config?: { background?: string } }).config?.background) ?? "white";
+  // patchAll's y-axis title on a pie has no field to go on: the browser logs that to the console, here it's dropped
+  const logger = vega.logger(vega.Error);
+  const compiled = vegaLite.compile(vl as Parameters<typeof vegaLite.compile>[0], { config: { background }, logger }).spec;
+  // Nothing is fetched while rendering: a url that slipped past externalDataPaths
+  // (an image mark, a spec Vega-Lite expands) fails instead of reaching the network or disk.
+  // Vega only logs a failed load and draws the chart empty, so the render fails here too.
+  let blocked: string | undefined;
+  const loader = vega.loader();
+  loader.sanitize = async (uri, options) => {
+    // A link stripLinks missed (e.g. a config default): vega-scenegraph reads `.href` off the
+    // result and can't take a rejection here, so it gets an empty link instead
+    if (options?.context === "href") return { href: "" };
+    blocked ??= uri;
+    throw new Error(`loading "${uri}" is not allowed`);
+  };
+  const view = new vega.View(vega.parse(compiled), { renderer: "none", logger, loader });
+  try {
+    const svg = await view.toSVG();
+    if (blocked) throw new Error(`loading "${blocked}" is not allowed; charts render from inline data only`);
+    return opts.provenance ? withFooter(svg, footerLines(opts.provenance), background) : svg;
+  } finally {
+    view.finalize();
+  }
+}
+
+/* ---------------- PNG ---------------- */
+
+type Resvg = typeof import("@resvg/resvg-wasm");
+
+let resvg: Promise<{ lib: Resvg; font: Uint8Array }> | null = null;
+
+/** resvg's wasm and the footer/axis font, loaded once per process. */
+function loadResvg() {
+  resvg ??= (async () => {
+    const lib = await import("@resvg/resvg-wasm");
+    const [wasm, font] = await Promise.all([readFile(WASM_FILE), readFile(FONT_FILE)]);
+    await lib.initWasm(wasm);
+    return { lib, font };
+  })().catch((err) => {
+    resvg = null;  // try again on the next render
+    throw err;
+  });
+  return resvg;
+}
+
+/** An SVG (from renderSvg) as PNG at `scale` × its size. */
+export async function rasterize(svg: string, scale = 1): Promise<Uint8Array> {
+  // The drawn size, footer and a spec's own width/height included
+  const { width, height } = svgRoot(svg);
+  const pixels = Math.round(width * height * scale * scale);
+  if (!(pixels <= MAX_PIXELS)) {
+    throw new InvalidParamsError("request", [{
+      param: "scale",
+      message: `a ${Math.round(width * scale)}×${Math.round(height * scale)} PNG is over the ${MAX_PIXELS / 1e6} MP limit; use a smaller size or scale`,
+      received: scale,
+    }]);
+  }
+  const { lib, font } = await loadResvg();
+  const image = new lib.Resvg(svg, {
+    // Any family the SVG names falls back to the one loaded font
+    font: { fontBuffers: [font] },
+    fitTo: { mode: "zoom", value: scale },
+  });
+  try {
+    const rendered = image.render();
+    const png = rendered.asPng();
+    rendered.free();
+    return png;
+  } finally {
+    image.free();
+  }
+}
+
+export async function renderPng(spec: VisualizationSpec, opts: RenderOptions = {}): Promise<Uint8Array> {
+  return rasterize(await renderSvg(spec, opts), opts.scale);
+}
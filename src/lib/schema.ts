@@ -28,3 +28,67 @@ export const PlanSchema = z.object({
 
 export type Plan = z.infer<typeof PlanSchema>;
 
+
+/* ---------------- data results ---------------- */
+
+// How far apart observations are; every row's `date` sits at the start of its period
+export const GranularitySchema = z.enum(["year", "quarter", "month", "day", "hour"]);
+export type Granularity = z.infer<typeof GranularitySchema>;
+
+// ISO date (YYYY-MM-DD) or hour (YYYY-MM-DDTHH:mm)
+const ISO_DATE = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d)?$/;
+
+export const RowSchema = z.object({
+  date: z.string().regex(ISO_DATE, "date must be YYYY-MM-DD (or YYYY-MM-DDTHH:mm for hourly data)"),
+  value: z.number({ error: "value must be a finite number" }),
+  series: z.string().min(1).optional(),
+  // Per-observation notes (e.g. a footnote or "preliminary" flag); not charted
+  annotations: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+export type Row = z.infer<typeof RowSchema>;
+
+export const ProvenanceSchema = z.object({
+  source: z.string(),
+  url: z.string(),
+  license: z.string().optional(),
+  note: z.string().optional(),
+  // BLS: the POST body sent (series IDs and years; never the API key)
+  requestBody: z.record(z.string(), z.unknown()).optional(),
+  // Urban Institute: pages and records read across the paginated calls
+  pages: z.number().optional(),
+  records: z.number().optional(),
+  cache: z
+    .object({
+      hits: z.number(),
+      misses: z.number(),
+      storedAt: z.string().optional(),
+      fixtures: z.enum(["record", "replay"]).optional(),
+    })
+    .optional(),
+});
+
+export const RunResultSchema = z
+  .object({
+    rows: z.array(RowSchema),
+    granularity: GranularitySchema,
+    unit: z.string().optional(),     // unit of `value`, e.g. "%", "US$", "AQI"
+    yLabel: z.string().optional(),   // axis title (often the unit or indicator name)
+    title: z.string().optional(),
+    provenance: ProvenanceSchema,
+  })
+  .superRefine((res, ctx) => {
+    // Dates must match the declared granularity (a "month" row is dated on the 1st, and so on)
+    const shape: Record<Granularity, RegExp> = {
+      year: /^\d{4}-01-01$/,
+      quarter: /^\d{4}-(01|04|07|10)-01$/,
+      month: /^\d{4}-\d{2}-01$/,
+      day: /^\d{4}-\d{2}-\d{2}$/,
+      hour: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/,
+    };
+    res.rows.forEach((r, i) => {
+      if (!shape[res.granularity].test(r.date)) {
+        ctx.addIssue({ code: "custom", path: ["rows", i, "date"], message: `"${r.date}" is not a ${res.granularity} date` });
+      }
+    });
+  });
+export type RunResult = z.infer<typeof RunResultSchema>;
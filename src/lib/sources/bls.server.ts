@@ -0,0 +1,49 @@
+// src/lib/sources/bls.server.ts
+import "server-only";
+import { fetchBlsUnempByRace, fetchBlsSeriesData } from "@/lib/fetchers/bls";
+import type { SourceFetch } from "./define";
+
+export const fetchBls: SourceFetch = async (meta, params) => {
+  // adjustment: "sa" | "nsa"; frequency: "monthly" | "quarterly" | "annual" (averages of monthly values)
+  const adjustment = String(params.adjustment ?? "").toLowerCase();
+  const seasonallyAdjusted = adjustment === "nsa" ? false : adjustment === "sa" ? true : undefined;
+  const freqRaw = String(params.frequency ?? "monthly").toLowerCase();
+  const frequency = freqRaw === "annual" || freqRaw === "quarterly" ? freqRaw : "monthly";
+  const granularity = frequency === "annual" ? "year" : frequency === "quarterly" ? "quarter" : "month";
+
+  // Generic series: registry keys, group names or raw BLS IDs as CSV ("cpi_all_items,cpi_core", "sex", "CES0000000001")
+  if (meta.dataset === "series") {
+    const series = String(params.series ?? meta.defaultParams?.series ?? "unemployment_rate").split(/\s*,\s*/).filter(Boolean);
+    // Same aliases as the race breakdown below: the schema takes startYear/endYear for both
+    const start = Number(params.startYear ?? params.start ?? meta.defaultParams?.start ?? 2000);
+    const end   = Number(params.endYear   ?? params.end   ?? meta.defaultParams?.end   ?? new Date().getFullYear());
+    const out = await fetchBlsSeriesData({ series, startYear: start, endYear: end, seasonallyAdjusted, frequency });
+    return {
+      rows: out.rows,
+      granularity,
+      unit: out.unit,
+      yLabel: out.unit,
+      title: out.title,
+      provenance: out.provenance,
+    };
+  }
+
+  const csv = String(params.races ?? meta.defaultParams?.races ?? "white,black,asian,hispanic");
+  const racesAll = csv.split(",").map(s => s.trim().toLowerCase()).filter(Boolean);
+  const valid = ["white","black","asian","hispanic"] as const;
+  const races = racesAll.filter((r): r is typeof valid[number] => (valid as readonly string[]).includes(r));
+  // Accept both 'start'/'end' and 'startYear'/'endYear' (planner vs manual queries)
+  const startRaw = (params.startYear ?? params.start ?? meta.defaultParams?.start ?? 2000);
+  const endRaw   = (params.endYear   ?? params.end   ?? meta.defaultParams?.end   ?? new Date().getFullYear());
+  const start = Number(startRaw);
+  const end   = Number(endRaw);
+  const out = await fetchBlsUnempByRace({ races, startYear: start, endYear: end, seasonallyAdjusted: seasonallyAdjusted ?? true, frequency });
+  return {
+    rows: out.rows,
+    granularity,
+    unit: out.unit ?? "%",
+    yLabel: out.unit ?? "%",
+    title: out.title ?? "Unemployment rate by race (CPS)",
+    provenance: out.provenance,
+  };
+};
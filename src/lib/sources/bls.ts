@@ -0,0 +1,64 @@
+// src/lib/sources/bls.ts
+import { z } from "zod";
+import REGISTRY from "@/lib/data/bls_series.json";
+import { csvParam, defineSource, yearParams } from "./define";
+
+export const BLS_RACES = ["white", "black", "asian", "hispanic"] as const;
+
+// What `series` accepts besides raw BLS IDs: registry keys and group names (src/lib/data/bls_series.json)
+const SERIES_NAMES = [
+  ...REGISTRY.map((e) => e.key),
+  ...Array.from(new Set(REGISTRY.map((e) => (e as { group?: string }).group).filter((g): g is string => !!g))),
+];
+const isSeriesId = (s: string) => /^[A-Z]{2}[A-Z0-9]{6,}$/i.test(s);
+
+const series = z.string().superRefine((raw, ctx) => {
+  const parts = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  const bad = parts.filter((p) => !SERIES_NAMES.includes(p.toLowerCase()) && !isSeriesId(p));
+  if (!parts.length || bad.length) {
+    ctx.addIssue({
+      code: "custom",
+      message: bad.length ? `unknown series ${bad.map((b) => `"${b}"`).join(", ")} (use a BLS series ID or a registry key)` : "must name at least one series",
+      params: { allowed: SERIES_NAMES },
+    });
+  }
+});
+
+// Planner queries send start/end; manual ones may send startYear/endYear
+const blsParams = (first: number) => {
+  const years = yearParams(first);
+  return {
+    ...years,
+    startYear: years.start,
+    endYear: years.end,
+    adjustment: z.enum(["sa", "nsa"]).optional(),
+    frequency: z.enum(["monthly", "quarterly", "annual"]).optional(),
+  };
+};
+
+export const bls = defineSource({
+  id: "bls",
+  label: "US BLS",
+  color: "#2a9d8f",
+  license: "Public domain (U.S. government work)",
+  cacheTtl: 12 * 3600,  // monthly releases; half a day keeps release mornings current
+  metrics: {
+    unemployment_rate_by_race_us: {
+      params: z.looseObject({ races: csvParam(BLS_RACES).optional(), ...blsParams(1972) }),
+      defaultParams: { races: "white,black,asian,hispanic", start: 2000, end: 2025 },
+      keywords: ["unemployment by race", "black unemployment", "hispanic unemployment"],
+    },
+    // any BLS series by ID or registry key
+    bls_series: {
+      params: z.looseObject({ series, ...blsParams(1913) }),  // CPI goes back to 1913
+      dataset: "series",
+      defaultParams: { series: "unemployment_rate", start: 2000, end: 2025 },
+      keywords: ["bls", "labor statistics"],
+    },
+  },
+  examples: [
+    "Black unemployment in the US since 2000",
+    "Core CPI since 2015",
+    "Unemployment rate by education since 2008",
+  ],
+});
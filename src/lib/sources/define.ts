@@ -0,0 +1,105 @@
+// src/lib/sources/define.ts
+// Building blocks for the source registry: the shape of a source definition,
+// defineSource() (keeps metric ids as literal types) and the zod helpers the
+// per-source param schemas share. Pure: safe to import on client and server.
+
+import { z } from "zod";
+import type { RawResult } from "@/lib/normalize";
+
+export type ParamValue = string | number;
+export type Params = Record<string, ParamValue>;
+export type ParamSchema = z.ZodType<Record<string, unknown>>;
+
+/** One chartable metric of a source (what used to be a hand-written CATALOG entry). */
+export type MetricDef = {
+  // Accepted plan params, checked (merged over defaultParams) before any fetch; see src/lib/params.ts
+  params: ParamSchema;
+  dataset?: string; // indicator / chart id when applicable
+  defaultParams?: Params; // flat only
+  chart?: { mark: "line" | "bar" | "area" | "point" }; // default mark when the plan doesn't set one
+  // Planner keywords: phrases that pick this metric when no planner rule matched
+  // (whole words, case-insensitive; the metric with the most matches wins)
+  keywords?: readonly string[];
+};
+
+export type SourceDef<Id extends string = string, M extends string = string> = {
+  id: Id;
+  label: string;      // bubble / suggestion-group label
+  color: string;      // bubble dot
+  license: string;    // default provenance license
+  cacheTtl: number;   // seconds a cached upstream response stays fresh (see httpCache)
+  metrics: Record<M, MetricDef>;
+  examples?: readonly string[];  // suggestion chips on the home page
+};
+
+/**
+ * Run one metric of a source and return its raw rows plus granularity; runSource
+ * adds cache stats and the default license, then normalizes. Lives in the
+ * source's `<id>.server.ts` so client bundles never pull in the fetchers.
+ */
+export type SourceFetch = (meta: MetricDef, params: Params) => Promise<RawResult>;
+
+/** Identity, but infers the id and metric ids as literals so MetricId/SourceId stay exact unions. */
+export function defineSource<const Id extends string, const M extends string>(def: SourceDef<Id, M>): SourceDef<Id, M> {
+  return def;
+}
+
+/* ---------------- shared param schemas ---------------- */
+
+// Custom issues carry the values that would have worked as `params.allowed`
+// (enum issues carry them as `values`); src/lib/params.ts surfaces both.
+
+export const isoDateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date like 2024-05-01");
+export const textParam = z.string().trim().min(1, "must not be empty");
+
+const year = z.coerce
+  .number({ error: "must be a year like 2020" })
+  .int("must be a whole year")
+  .min(1000, "must be a four-digit year")
+  .max(9999, "must be a four-digit year");
+
+/**
+ * `start` / `end` years for a metric whose data covers `first`..`last` (last
+ * defaults to the current year). Ranges that only partly overlap are fine (the
+ * fetchers clamp); a range with no data at all, or an end in the future, is not.
+ */
+export function yearParams(first?: number, last?: number) {
+  const now = new Date().getFullYear();
+  const top = Math.min(last ?? now, now);
+  const allowed = [first != null ? `${first}–${top}` : `up to ${top}`];
+  return {
+    start: year.refine((y) => y <= top, { message: `no data after ${top}`, params: { allowed } }).optional(),
+    end: year
+      .refine((y) => first == null || y >= first, { message: `no data before ${first}`, params: { allowed } })
+      .refine((y) => y <= now, { message: `can't be later than ${now}`, params: { allowed } })
+      .optional(),
+  };
+}
+
+/** Comma-separated values from a closed list (case-insensitive), at most `max` of them. */
+export function csvParam(values: readonly string[], opts: { max?: number; sep?: string } = {}) {
+  const sep = opts.sep ?? ",";
+  return z.string().superRefine((raw, ctx) => {
+    const parts = raw.split(sep).map((p) => p.trim()).filter(Boolean);
+    if (!parts.length) ctx.addIssue({ code: "custom", message: "must not be empty", params: { allowed: [...values] } });
+    const known = new Set(values.map((v) => v.toLowerCase()));
+    const bad = parts.filter((p) => !known.has(p.toLowerCase()));
+    if (bad.length) {
+      const list = bad.map((b) => `"${b}"`).join(", ");
+      ctx.addIssue({ code: "custom", message: `${list} ${bad.length > 1 ? "aren't" : "isn't"} accepted`, params: { allowed: [...values] } });
+    }
+    if (opts.max != null && parts.length > opts.max) {
+      ctx.addIssue({ code: "custom", message: `at most ${opts.max} value${opts.max > 1 ? "s" : ""} (got ${parts.length})` });
+    }
+  });
+}
+
+/** ISO3 country codes as CSV ("IND,CHN"); World Bank aggregates (WLD, SSF) and OWID codes (OWID_WRL) too. */
+export const countryParam = z.string().superRefine((raw, ctx) => {
+  const parts = raw.split(/\s*[,;]\s*/).filter(Boolean);
+  const bad = parts.filter((c) => !/^([A-Z]{3}|OWID_[A-Z0-9]+)$/i.test(c));
+  if (!parts.length) ctx.addIssue({ code: "custom", message: "must name at least one country (ISO3 code like USA)" });
+  if (bad.length) {
+    ctx.addIssue({ code: "custom", message: `${bad.map((b) => `"${b}"`).join(", ")} ${bad.length > 1 ? "aren't ISO3 codes" : "isn't an ISO3 code"} (e.g. USA, IND, WLD)` });
+  }
+});
@@ -0,0 +1,25 @@
+// src/lib/sources/epa_aqi.server.ts
+import "server-only";
+import { fetchDailyAqiByCbsa, fetchAqiBreakdownByCbsa } from "@/lib/fetchers/epa_aqi";
+import type { SourceFetch } from "./define";
+
+export const fetchAqi: SourceFetch = async (meta, params) => {
+  // One or more CBSAs separated by ";" (names contain commas): full names, codes or loose phrases
+  const cbsa = String(params.cbsa ?? meta.defaultParams?.cbsa ?? "New York-Newark-Jersey City, NY-NJ-PA")
+    .split(/\s*;\s*/).filter(Boolean);
+  const start = Number(params.start ?? meta.defaultParams?.start ?? new Date().getFullYear());
+  const end   = Number(params.end   ?? meta.defaultParams?.end   ?? new Date().getFullYear());
+  // Breakdown metrics count days per year by 'Category' or 'Defining Parameter'
+  const by = meta.dataset === "category" || meta.dataset === "pollutant" ? meta.dataset : undefined;
+  const out = by
+    ? await fetchAqiBreakdownByCbsa({ cbsaName: cbsa, startYear: start, endYear: end, by })
+    : await fetchDailyAqiByCbsa({ cbsaName: cbsa, startYear: start, endYear: end });
+  return {
+    rows: out.rows,
+    granularity: by ? "year" : "day",
+    unit: out.unit,
+    yLabel: out.unit ?? "AQI",
+    title: out.title ?? undefined,
+    provenance: { source: "EPA AirData", url: "https://aqs.epa.gov/aqsweb/airdata/" },
+  };
+};
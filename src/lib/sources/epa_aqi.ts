@@ -0,0 +1,60 @@
+// src/lib/sources/epa_aqi.ts
+import { z } from "zod";
+import { defineSource, yearParams } from "./define";
+
+/**
+ * One or more metro areas separated by ";" (names contain commas): full CBSA
+ * names, 5-digit codes or loose phrases. Whether a name matches a CBSA is only
+ * known once the EPA index is loaded, so the fetcher reports unknown or
+ * ambiguous names with their candidates (as the same invalid-parameter error).
+ */
+const cbsa = (max: number) =>
+  z.string().superRefine((raw, ctx) => {
+    const parts = raw.split(";").map((s) => s.trim()).filter(Boolean);
+    if (!parts.length) ctx.addIssue({ code: "custom", message: "must name a metro area (CBSA name or code)" });
+    if (parts.length > max) {
+      ctx.addIssue({
+        code: "custom",
+        message: max === 1 ? "this metric charts one metro area at a time" : `at most ${max} metro areas per chart (got ${parts.length})`,
+      });
+    }
+  });
+
+// AirData daily files start in 1980
+const aqiParams = (maxCbsas: number) => z.looseObject({ cbsa: cbsa(maxCbsas).optional(), ...yearParams(1980) });
+
+export const epa_aqi = defineSource({
+  id: "epa_aqi",
+  label: "EPA AirData",
+  color: "#e76f51",
+  license: "Public domain (U.S. government work)",
+  cacheTtl: 7 * 24 * 3600,  // yearly files, refreshed a few times a year
+  metrics: {
+    aqi_daily_cbsa: {
+      params: aqiParams(8),
+      defaultParams: { cbsa: "New York-Newark-Jersey City, NY-NJ-PA", start: 2025, end: 2025 },
+      keywords: ["aqi", "air quality"],
+    },
+    // days per AQI category
+    aqi_category_days_cbsa: {
+      params: aqiParams(1),
+      dataset: "category",
+      defaultParams: { cbsa: "New York-Newark-Jersey City, NY-NJ-PA", start: 2020, end: 2025 },
+      chart: { mark: "bar" },
+      keywords: ["aqi", "air quality", "aqi category", "unhealthy days"],
+    },
+    // days per defining pollutant
+    aqi_pollutant_days_cbsa: {
+      params: aqiParams(1),
+      dataset: "pollutant",
+      defaultParams: { cbsa: "New York-Newark-Jersey City, NY-NJ-PA", start: 2020, end: 2025 },
+      chart: { mark: "bar" },
+      keywords: ["aqi", "air quality", "defining pollutant"],
+    },
+  },
+  examples: [
+    "Daily AQI for Los Angeles-Long Beach-Anaheim, CA in 2024",
+    "Days per AQI category in Phoenix 2015–2024",
+    "Which pollutant drove the AQI in Denver since 2018",
+  ],
+});
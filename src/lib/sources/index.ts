@@ -0,0 +1,76 @@
+// src/lib/sources/index.ts
+// Source registry. Every data source is one definition in this folder (id, label,
+// color, license, param schema, metrics, planner keywords, example queries) plus
+// its fetch function in `<id>.server.ts`. The catalog, allowlist, chooser
+// validation, cache TTLs, source bubbles and suggestion chips are all derived
+// from SOURCES. Pure: safe to import on client and server.
+
+import type { SourceDef } from "./define";
+import { worldbank } from "./worldbank";
+import { openmeteo } from "./openmeteo";
+import { owid } from "./owid";
+import { bls } from "./bls";
+import { epa_aqi } from "./epa_aqi";
+import { urban } from "./urban";
+
+export type { MetricDef, Params, ParamValue, SourceDef, SourceFetch } from "./define";
+
+// Order is display order (bubbles, suggestion groups) and keyword tie-break order
+export const SOURCES = [worldbank, openmeteo, owid, bls, epa_aqi, urban] as const;
+
+type AnySource = (typeof SOURCES)[number];
+type MetricsOf<S> = S extends { metrics: infer M } ? Extract<keyof M, string> : never;
+
+export type SourceId = AnySource["id"];
+export type MetricId = MetricsOf<AnySource>;
+
+const BY_ID = new Map<string, SourceDef>(SOURCES.map((s) => [s.id, s]));
+
+// Metric ids are global: two sources declaring the same one is a bug, caught at load
+{
+  const seen = new Map<string, string>();
+  for (const s of SOURCES) {
+    for (const id of Object.keys(s.metrics)) {
+      if (seen.has(id)) throw new Error(`Metric "${id}" is declared by both ${seen.get(id)} and ${s.id}`);
+      seen.set(id, s.id);
+    }
+  }
+}
+
+export function getSource(id: SourceId): SourceDef<SourceId> {
+  return BY_ID.get(id) as SourceDef<SourceId>;
+}
+
+/* ---------------- planner keywords ---------------- */
+
+export type KeywordMatch = { source: SourceId; metricId: MetricId; keywords: string[] };
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+const phraseRe = (k: string) => new RegExp(`\\b${k.trim().split(/\s+/).map(escapeRe).join("\\s+")}\\b`, "i");
+
+const KEYWORDS: Array<{ source: SourceId; metricId: MetricId; phrases: Array<{ text: string; re: RegExp }> }> =
+  SOURCES.flatMap((s) =>
+    Object.entries(s.metrics).map(([metricId, m]) => ({
+      source: s.id as SourceId,
+      metricId: metricId as MetricId,
+      phrases: ((m as { keywords?: readonly string[] }).keywords ?? []).map((text) => ({ text, re: phraseRe(text) })),
+    }))
+  );
+
+/**
+ * The metric whose planner keywords best match the query: most phrases matched,
+ * then most characters matched, then registry order. Undefined when nothing matches.
+ */
+export function matchMetricByKeywords(query: string): KeywordMatch | undefined {
+  let best: (KeywordMatch & { chars: number }) | undefined;
+  for (const k of KEYWORDS) {
+    const hits = k.phrases.filter((p) => p.re.test(query)).map((p) => p.text);
+    if (!hits.length) continue;
+    const chars = hits.reduce((n, h) => n + h.length, 0);
+    if (!best || hits.length > best.keywords.length || (hits.length === best.keywords.length && chars > best.chars)) {
+      best = { source: k.source, metricId: k.metricId, keywords: hits, chars };
+    }
+  }
+  if (!best) return undefined;
+  return { source: best.source, metricId: best.metricId, keywords: best.keywords };
+}
@@ -0,0 +1,29 @@
+// src/lib/sources/openmeteo.server.ts
+import "server-only";
+import { fetchOpenMeteo, isOpenMeteoVariable, type OpenMeteoStat } from "@/lib/fetchers/openmeteo";
+import type { SourceFetch } from "./define";
+
+export const fetchWeather: SourceFetch = async (meta, params) => {
+  const lat = Number(params.lat ?? meta.defaultParams?.lat ?? 40.7128);
+  const lon = Number(params.lon ?? meta.defaultParams?.lon ?? -74.0060);
+  const variableRaw = String(params.variable ?? meta.defaultParams?.variable ?? "temperature");
+  const variable = isOpenMeteoVariable(variableRaw) ? variableRaw : "temperature";
+  const resolution = params.resolution === "daily" || params.resolution === "hourly" ? params.resolution : undefined;
+  const mode = params.mode === "archive" || params.mode === "forecast" ? params.mode : undefined;
+  const stats = String(params.stats ?? "")
+    .split(",").map(s => s.trim().toLowerCase())
+    .filter((s): s is OpenMeteoStat => ["mean", "min", "max", "sum"].includes(s));
+  // Accept explicit dates, or planner years (start/end → Jan 1 .. Dec 31)
+  const startDate = params.startDate ? String(params.startDate) : params.start ? `${Number(params.start)}-01-01` : undefined;
+  const endDate = params.endDate ? String(params.endDate) : params.end ? `${Number(params.end)}-12-31` : undefined;
+  const forecastDays = params.days ? Number(params.days) : undefined;
+  const placeName = params.place ? String(params.place) : undefined;
+  const out = await fetchOpenMeteo({ lat, lon, variable, resolution, stats, startDate, endDate, mode, forecastDays, placeName });
+  return {
+    rows: out.rows,
+    granularity: out.granularity,
+    yLabel: out.yLabel ?? "Temperature",
+    title: out.title,
+    provenance: out.provenance,
+  };
+};
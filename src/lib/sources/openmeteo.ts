@@ -0,0 +1,31 @@
+// src/lib/sources/openmeteo.ts
+import { z } from "zod";
+import { csvParam, defineSource, isoDateParam, textParam, yearParams } from "./define";
+
+export const openmeteo = defineSource({
+  id: "openmeteo",
+  label: "Open-Meteo",
+  color: "#0077b6",
+  license: "CC BY 4.0",
+  cacheTtl: 3600,  // forecasts move; archive calls pass a longer ttl
+  metrics: {
+    temp_hourly: {
+      params: z.looseObject({
+        lat: z.coerce.number({ error: "must be a latitude" }).min(-90, "must be between -90 and 90").max(90, "must be between -90 and 90").optional(),
+        lon: z.coerce.number({ error: "must be a longitude" }).min(-180, "must be between -180 and 180").max(180, "must be between -180 and 180").optional(),
+        place: textParam.optional(),
+        variable: z.enum(["temperature", "precipitation", "wind_speed", "humidity"]).optional(),
+        stats: csvParam(["mean", "min", "max", "sum"]).optional(),
+        resolution: z.enum(["hourly", "daily"]).optional(),
+        mode: z.enum(["forecast", "archive"]).optional(),
+        days: z.coerce.number({ error: "must be a number of days" }).int().min(1, "must be 1–16").max(16, "must be 1–16").optional(),
+        // Years (archive, ERA5 from 1940) or explicit dates
+        ...yearParams(1940),
+        startDate: isoDateParam.optional(),
+        endDate: isoDateParam.optional(),
+      }),
+      defaultParams: { lat: 40.7128, lon: -74.0060 },
+      keywords: ["weather", "temperature", "forecast"],
+    },
+  },
+});
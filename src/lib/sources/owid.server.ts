@@ -0,0 +1,48 @@
+// src/lib/sources/owid.server.ts
+import "server-only";
+import { fetchOwid, fetchOwidGrapher } from "@/lib/fetchers/owid";
+import { InvalidParamsError } from "@/lib/errors";
+import { getOwidChart } from "@/lib/owidIndex";
+import type { SourceFetch } from "./define";
+
+export const fetchOwidMetric: SourceFetch = async (meta, params) => {
+  // Generic Grapher chart: slug comes from params (the planner picks it from the bundled chart list)
+  if (!meta.dataset) {
+    const slug = String(params.slug ?? "").trim();
+    if (!slug) throw new InvalidParamsError("owid_grapher", [{ param: "slug", message: "missing Grapher slug" }]);
+    const countries = String(params.country ?? meta.defaultParams?.country ?? "USA").split(/\s*,\s*/).filter(Boolean);
+    const start = Number(params.start ?? meta.defaultParams?.start ?? 1900);
+    const end   = Number(params.end   ?? meta.defaultParams?.end   ?? new Date().getFullYear());
+    const column = params.column ? String(params.column) : undefined;
+    const out = await fetchOwidGrapher({ slug, countries, startYear: start, endYear: end, column });
+    return {
+      rows: out.rows,
+      granularity: out.granularity,
+      unit: out.unit,
+      yLabel: out.unit ?? out.title ?? "Value",
+      title: out.title ?? getOwidChart(slug)?.title,
+      provenance: out.provenance,
+    };
+  }
+
+  const indicator = (String(params.indicator ?? meta.dataset ?? "life-expectancy") as "life-expectancy" | "co2");
+  const countryCsv = String(params.country ?? meta.defaultParams?.country ?? "USA");
+  const countries = countryCsv.split(/\s*,\s*/).filter(Boolean);
+  const start = Number(params.start ?? meta.defaultParams?.start ?? 1950);
+  const end   = Number(params.end   ?? meta.defaultParams?.end   ?? new Date().getFullYear());
+  // CO₂ dataset: comma-separated owid-co2-data.csv columns ("co2_per_capita", "coal_co2,oil_co2,gas_co2")
+  const columns = indicator === "co2"
+    ? String(params.column ?? meta.defaultParams?.column ?? "co2").toLowerCase().split(/\s*,\s*/).filter(Boolean)
+    : undefined;
+  const out = await fetchOwid({ indicator, countries, startYear: start, endYear: end, columns });
+  return {
+    rows: out.rows,
+    granularity: "year",
+    unit: out.unit,
+    yLabel: out.unit ?? "Value",
+    title: out.title ?? undefined,
+    provenance: indicator === "co2"
+      ? { source: "OWID CO₂ and greenhouse gas emissions", url: out.provenance.url }
+      : { source: "OWID", url: `https://ourworldindata.org/grapher/${indicator}` },
+  };
+};
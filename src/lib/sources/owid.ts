@@ -0,0 +1,88 @@
+// src/lib/sources/owid.ts
+import { z } from "zod";
+import { countryParam, csvParam, defineSource, textParam, yearParams } from "./define";
+
+/** The owid-co2-data.csv columns the co2 metrics chart (the `column` param), with labels and units. */
+export const OWID_CO2_COLUMNS: Record<string, { label: string; unit: string; fuel?: string }> = {
+  co2:                      { label: "CO₂ emissions (fossil & industry)", unit: "CO₂ (Mt)" },
+  co2_per_capita:           { label: "CO₂ emissions per capita", unit: "t CO₂ per person" },
+  share_global_co2:         { label: "Share of global CO₂ emissions", unit: "% of world" },
+  cumulative_co2:           { label: "Cumulative CO₂ emissions", unit: "CO₂ (Mt)" },
+  share_global_cumulative_co2: { label: "Share of global cumulative CO₂", unit: "% of world" },
+  co2_per_gdp:              { label: "CO₂ emissions per unit of GDP", unit: "kg CO₂ per $" },
+  consumption_co2:          { label: "Consumption-based CO₂ emissions", unit: "CO₂ (Mt)" },
+  consumption_co2_per_capita: { label: "Consumption-based CO₂ per capita", unit: "t CO₂ per person" },
+  co2_including_luc:        { label: "CO₂ emissions incl. land use", unit: "CO₂ (Mt)" },
+  land_use_change_co2:      { label: "CO₂ from land-use change", unit: "CO₂ (Mt)" },
+  coal_co2:                 { label: "CO₂ from coal", unit: "CO₂ (Mt)", fuel: "Coal" },
+  oil_co2:                  { label: "CO₂ from oil", unit: "CO₂ (Mt)", fuel: "Oil" },
+  gas_co2:                  { label: "CO₂ from gas", unit: "CO₂ (Mt)", fuel: "Gas" },
+  cement_co2:               { label: "CO₂ from cement", unit: "CO₂ (Mt)", fuel: "Cement" },
+  flaring_co2:              { label: "CO₂ from flaring", unit: "CO₂ (Mt)", fuel: "Flaring" },
+  other_industry_co2:       { label: "CO₂ from other industry", unit: "CO₂ (Mt)", fuel: "Other industry" },
+  coal_co2_per_capita:      { label: "CO₂ from coal per capita", unit: "t CO₂ per person", fuel: "Coal" },
+  oil_co2_per_capita:       { label: "CO₂ from oil per capita", unit: "t CO₂ per person", fuel: "Oil" },
+  gas_co2_per_capita:       { label: "CO₂ from gas per capita", unit: "t CO₂ per person", fuel: "Gas" },
+  cement_co2_per_capita:    { label: "CO₂ from cement per capita", unit: "t CO₂ per person", fuel: "Cement" },
+  flaring_co2_per_capita:   { label: "CO₂ from flaring per capita", unit: "t CO₂ per person", fuel: "Flaring" },
+  other_co2_per_capita:     { label: "CO₂ from other industry per capita", unit: "t CO₂ per person", fuel: "Other industry" },
+  methane:                  { label: "Methane emissions", unit: "CO₂e (Mt)" },
+  methane_per_capita:       { label: "Methane emissions per capita", unit: "t CO₂e per person" },
+  nitrous_oxide:            { label: "Nitrous oxide emissions", unit: "CO₂e (Mt)" },
+  nitrous_oxide_per_capita: { label: "Nitrous oxide emissions per capita", unit: "t CO₂e per person" },
+  total_ghg:                { label: "Greenhouse gas emissions", unit: "CO₂e (Mt)" },
+  ghg_per_capita:           { label: "Greenhouse gas emissions per capita", unit: "t CO₂e per person" },
+};
+
+// country: ISO3 CSV; column: CSV of OWID_CO2_COLUMNS for the co2 metrics, a Grapher column otherwise
+const owidParams = (first?: number, column: z.ZodType<string> = textParam) =>
+  z.looseObject({
+    country: countryParam.optional(),
+    column: column.optional(),
+    indicator: z.enum(["life-expectancy", "co2"]).optional(),
+    ...yearParams(first),
+  });
+
+export const owid = defineSource({
+  id: "owid",
+  label: "Our World in Data",
+  color: "#6b5b95",
+  license: "CC BY 4.0",
+  cacheTtl: 24 * 3600,
+  metrics: {
+    life_expectancy: {
+      params: owidParams(1543),
+      dataset: "life-expectancy",
+      defaultParams: { country: "USA", start: 1950, end: 2025 },
+      keywords: ["life expectancy"],
+    },
+    // any owid-co2-data.csv column
+    co2_emissions: {
+      params: owidParams(1750, csvParam(Object.keys(OWID_CO2_COLUMNS))),
+      dataset: "co2",
+      defaultParams: { country: "USA", start: 1960, end: 2025, column: "co2" },
+      keywords: ["co2", "carbon emissions", "greenhouse gas"],
+    },
+    // coal/oil/gas/... stacked
+    co2_by_fuel: {
+      params: owidParams(1750, csvParam(Object.keys(OWID_CO2_COLUMNS))),
+      dataset: "co2",
+      defaultParams: { country: "USA", start: 1960, end: 2025, column: "coal_co2,oil_co2,gas_co2,cement_co2,flaring_co2,other_industry_co2" },
+      chart: { mark: "area" },
+      keywords: ["co2", "emissions by fuel", "fuel mix"],
+    },
+    // any OWID Grapher chart by slug
+    owid_grapher: {
+      params: owidParams().extend({
+        slug: z.string().trim().regex(/^[a-z0-9-]+$/, "must be an OWID Grapher slug like life-expectancy"),
+      }),
+      defaultParams: { country: "USA" },
+    },
+  },
+  examples: [
+    "Life expectancy Japan since 1950",
+    "CO2 emissions China since 1990",
+    "CO2 per capita India vs China since 1990",
+    "CO2 by fuel United States since 1950",
+  ],
+});
@@ -0,0 +1,23 @@
+// src/lib/sources/server.ts
+// Fetch function per registered source. Keyed by SourceId, so registering a
+// source in ./index.ts without adding its fetch here fails to type-check.
+// Server-only (do not import in client components).
+
+import "server-only";
+import type { SourceId } from "./index";
+import type { SourceFetch } from "./define";
+import { fetchWorldBank } from "./worldbank.server";
+import { fetchWeather } from "./openmeteo.server";
+import { fetchOwidMetric } from "./owid.server";
+import { fetchBls } from "./bls.server";
+import { fetchAqi } from "./epa_aqi.server";
+import { fetchUrbanData } from "./urban.server";
+
+export const SOURCE_FETCH: Record<SourceId, SourceFetch> = {
+  worldbank: fetchWorldBank,
+  openmeteo: fetchWeather,
+  owid: fetchOwidMetric,
+  bls: fetchBls,
+  epa_aqi: fetchAqi,
+  urban: fetchUrbanData,
+};
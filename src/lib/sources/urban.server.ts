@@ -0,0 +1,69 @@
+// src/lib/sources/urban.server.ts
+import "server-only";
+import { fetchUrban, fetchUrbanMetric } from "@/lib/fetchers/urban";
+import type { SourceFetch } from "./define";
+
+export const fetchUrbanData: SourceFetch = async (meta, params) => {
+  // Named education metrics: states as CSV of postal codes ("CA,TX"), one request per state and year
+  if (meta.dataset) {
+    const states = String(params.state ?? meta.defaultParams?.state ?? "CA").split(/\s*,\s*/).filter(Boolean);
+    const start = Number(params.start ?? meta.defaultParams?.start ?? 2010);
+    const end   = Number(params.end   ?? meta.defaultParams?.end   ?? new Date().getFullYear());
+    const gradeRaw = params.grade ?? meta.defaultParams?.grade;
+    const measure = params.measure ?? meta.defaultParams?.measure;
+    const out = await fetchUrbanMetric({
+      metric: meta.dataset,
+      states,
+      startYear: start,
+      endYear: end,
+      grade: gradeRaw != null ? Number(gradeRaw) : undefined,
+      measure: measure != null ? String(measure) : undefined,
+    });
+    return {
+      rows: out.rows,
+      granularity: "year",
+      unit: out.unit,
+      yLabel: out.unit,
+      title: out.title,
+      provenance: out.provenance,
+    };
+  }
+
+  const valueField = String(params.value ?? meta.defaultParams?.value);
+  const yearField = String(params.yearField ?? "year");
+  const seriesField = params.seriesField ? String(params.seriesField) : undefined;
+  const unit = params.unit ? String(params.unit) : undefined;
+  // School-level endpoints: "sum" / "mean" rows per year and series; maxPages caps the `next` links followed
+  const aggregate = params.aggregate === "sum" || params.aggregate === "mean" ? params.aggregate : undefined;
+  const maxPages = params.maxPages ? Number(params.maxPages) : undefined;
+
+  // pathTemplate with {year} + start/end loops over years; otherwise a single url/path
+  if (params.pathTemplate) {
+    const pathTemplate = String(params.pathTemplate).replace(/^https?:\/\/educationdata\.urban\.org\//, "/");
+    const start = Number(params.start ?? new Date().getFullYear() - 10);
+    const end   = Number(params.end   ?? start);
+    const years = Array.from({ length: Math.max(0, end - start + 1) }, (_, i) => start + i);
+    const out = await fetchUrban({ pathTemplate, years, valueField, yearField, seriesField, unit, aggregate, maxPages });
+    return {
+      rows: out.rows,
+      granularity: "year",
+      unit: out.unit,
+      yLabel: out.unit,
+      title: out.title ?? "Urban Education Data",
+      provenance: out.provenance,
+    };
+  }
+
+  const url = String(params.url ?? meta.defaultParams?.url);
+  if (!url || !valueField) throw new Error("Urban: missing url or value");
+  const path = url.replace(/^https?:\/\/educationdata\.urban\.org\//, "/");
+  const out = await fetchUrban({ path, filters: {}, valueField, yearField, seriesField, unit, aggregate, maxPages });
+  return {
+    rows: out.rows,
+    granularity: "year",
+    unit: out.unit,
+    yLabel: out.unit ?? "Value",
+    title: out.title ?? "Urban Education Data",
+    provenance: { source: "Urban Institute", url: `https://educationdata.urban.org${path}`, note: out.provenance.note },
+  };
+};
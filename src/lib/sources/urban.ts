@@ -0,0 +1,136 @@
+// src/lib/sources/urban.ts
+import { z } from "zod";
+import { US_STATES, stateByCode } from "@/lib/usStates";
+import { defineSource, textParam, yearParams } from "./define";
+
+// CCD district finance (F-33) fields for the school_finance metric
+export const URBAN_FINANCE_MEASURES: Record<string, string> = {
+  exp_total: "Total expenditures",
+  exp_current_instruction_total: "Instruction expenditures",
+  rev_total: "Total revenues",
+  rev_fed_total: "Federal revenues",
+  rev_state_total: "State revenues",
+  rev_local_total: "Local revenues",
+};
+
+// Years each named metric's endpoint covers (keyed by dataset, as in URBAN_METRICS)
+export const URBAN_YEARS: Record<string, { firstYear: number; lastYear: number }> = {
+  enrollment_grade: { firstYear: 1986, lastYear: 2022 },
+  enrollment_race: { firstYear: 1986, lastYear: 2022 },
+  enrollment_state: { firstYear: 1986, lastYear: 2022 },
+  ipeds_completions: { firstYear: 1991, lastYear: 2021 },
+  school_finance: { firstYear: 1991, lastYear: 2020 },
+};
+
+// The Education Data API; custom urls, templates and the `next` links of its pages must stay on it
+export const URBAN_API_HOST = "educationdata.urban.org";
+
+/** `raw` (a path or a full URL) as an https Education Data API URL under /api/v1/; null for anything else. */
+export function urbanApiUrl(raw: string): string | null {
+  try {
+    const url = new URL(raw, `https://${URBAN_API_HOST}`);
+    if (url.hostname !== URBAN_API_HOST || !/^https?:$/.test(url.protocol) || url.username || url.password || url.port) return null;
+    if (!url.pathname.startsWith("/api/v1/")) return null;
+    url.protocol = "https:";
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+const apiPath = textParam.refine((raw) => urbanApiUrl(raw) !== null, `must be an ${URBAN_API_HOST} path starting with /api/v1/`);
+
+// -1 = pre-K, 0 = kindergarten, 1..12, 99 = all grades
+const GRADES = [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 99];
+
+/** States as CSV of postal codes, FIPS codes or names ("CA,TX"), at most `max`. */
+const states = (max: number) =>
+  z.string().superRefine((raw, ctx) => {
+    const parts = raw.split(",").map((s) => s.trim()).filter(Boolean);
+    const bad = parts.filter((p) => !stateByCode(p));
+    if (!parts.length || bad.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: bad.length ? `unknown US state ${bad.map((b) => `"${b}"`).join(", ")}` : "must name at least one US state",
+        params: { allowed: US_STATES.map((s) => s.code) },
+      });
+    }
+    if (parts.length > max) {
+      ctx.addIssue({ code: "custom", message: max === 1 ? "this metric charts one state at a time" : `at most ${max} states per chart (got ${parts.length})` });
+    }
+  });
+
+const grade = z.coerce
+  .number({ error: "must be a grade number" })
+  .refine((g) => GRADES.includes(g), { message: "must be -1 (pre-K), 0 (kindergarten), 1–12 or 99 (all grades)", params: { allowed: GRADES.map(String) } });
+
+const named = (dataset: string, extra: z.ZodRawShape = {}, maxStates = 10) => {
+  const { firstYear, lastYear } = URBAN_YEARS[dataset];
+  return z.looseObject({ state: states(maxStates).optional(), ...yearParams(firstYear, lastYear), ...extra });
+};
+
+export const urban = defineSource({
+  id: "urban",
+  label: "Urban Institute",
+  color: "#1696d2",
+  license: "ODC-BY 1.0",
+  cacheTtl: 7 * 24 * 3600,
+  metrics: {
+    // generic Education Data endpoint: a url, or a pathTemplate with {year} looped over start..end
+    urban_edu_value: {
+      params: z.looseObject({
+        url: apiPath.optional(),
+        pathTemplate: apiPath.refine((t) => t.includes("{year}"), "must contain {year}").optional(),
+        value: textParam,
+        yearField: textParam.optional(),
+        seriesField: textParam.optional(),
+        unit: textParam.optional(),
+        aggregate: z.enum(["sum", "mean"]).optional(),
+        maxPages: z.coerce.number({ error: "must be a number" }).int().min(1, "must be at least 1").optional(),
+        ...yearParams(),
+      }),
+      defaultParams: { url: "/api/v1/schools/ccd/enrollment/2013/grade-3/?fips=11", value: "enrollment" },
+    },
+    // CCD enrollment, all grades or one
+    urban_enrollment_grade: {
+      params: named("enrollment_grade", { grade: grade.optional() }),
+      dataset: "enrollment_grade",
+      defaultParams: { state: "CA", grade: 99, start: 2010, end: 2022 },
+      keywords: ["school enrollment", "enrollment"],
+    },
+    // CCD enrollment by race (one state: the races are the series)
+    urban_enrollment_race: {
+      params: named("enrollment_race", { grade: grade.optional() }, 1),
+      dataset: "enrollment_race",
+      defaultParams: { state: "CA", grade: 99, start: 2010, end: 2022 },
+      keywords: ["enrollment", "enrollment by race"],
+    },
+    // CCD enrollment, one series per state
+    urban_enrollment_state: {
+      params: named("enrollment_state"),
+      dataset: "enrollment_state",
+      defaultParams: { state: "CA,TX", start: 2010, end: 2022 },
+      keywords: ["enrollment", "enrollment by state"],
+    },
+    // IPEDS awards
+    urban_ipeds_completions: {
+      params: named("ipeds_completions"),
+      dataset: "ipeds_completions",
+      defaultParams: { state: "CA", start: 2010, end: 2021 },
+      keywords: ["degrees awarded", "completions", "ipeds"],
+    },
+    // CCD district finance
+    urban_school_finance: {
+      params: named("school_finance", { measure: z.enum(Object.keys(URBAN_FINANCE_MEASURES)).optional() }),
+      dataset: "school_finance",
+      defaultParams: { state: "CA", measure: "exp_total", start: 2010, end: 2020 },
+      keywords: ["school finance", "school spending", "school district spending"],
+    },
+  },
+  examples: [
+    "Public school enrollment in Texas since 2005",
+    "School enrollment by race in California 2010–2020",
+    "Grade 3 enrollment in Ohio vs Michigan since 2010",
+    "Degrees awarded in New York since 2005",
+  ],
+});
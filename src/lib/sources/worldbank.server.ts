@@ -0,0 +1,26 @@
+// src/lib/sources/worldbank.server.ts
+import "server-only";
+import { fetchWDI } from "@/lib/fetchers/worldbank";
+import { getWdiIndicator } from "@/lib/wdiIndex";
+import type { SourceFetch } from "./define";
+
+export const fetchWorldBank: SourceFetch = async (meta, params) => {
+  const indicator = String(params.indicator ?? meta.dataset ?? "").trim();
+  if (!indicator) throw new Error("World Bank: missing indicator code");
+  // One or more ISO3 codes as CSV ("IND,CHN,BRA"); multiple countries come back as series
+  const countryCsv = String(params.country ?? meta.defaultParams?.country ?? "USA");
+  const countries = countryCsv.split(/\s*[,;]\s*/).filter(Boolean);
+  const start = Number(params.start ?? meta.defaultParams?.start ?? 2000);
+  const end = Number(params.end ?? meta.defaultParams?.end ?? new Date().getFullYear());
+  const out = await fetchWDI(indicator, countries, start, end);
+  // Generic indicators carry their name/unit from the WDI index
+  const info = meta.dataset ? undefined : await getWdiIndicator(indicator);
+  return {
+    rows: out.rows,
+    granularity: "year",
+    unit: info?.unit,
+    yLabel: out.yLabel ?? undefined,
+    title: info?.name,
+    provenance: out.provenance,
+  };
+};
@@ -0,0 +1,55 @@
+// src/lib/sources/worldbank.ts
+import { z } from "zod";
+import { countryParam, defineSource, yearParams } from "./define";
+
+// WDI code ("SP.POP.TOTL"); overrides a named metric's dataset, required for worldbank_indicator
+const indicator = z.string().trim().regex(/^[A-Za-z0-9_.]+$/, "must be a WDI indicator code like SP.POP.TOTL");
+
+// country: ISO3 CSV ("IND,CHN,BRA"); years from the first year the series is published
+const wdi = (first: number) => z.looseObject({ country: countryParam.optional(), indicator: indicator.optional(), ...yearParams(first) });
+
+export const worldbank = defineSource({
+  id: "worldbank",
+  label: "World Bank",
+  color: "#2b8a3e",
+  license: "CC BY 4.0",
+  cacheTtl: 24 * 3600,
+  metrics: {
+    // % of labor force
+    unemployment_rate: {
+      params: wdi(1991),  // ILO modelled estimates
+      dataset: "SL.UEM.TOTL.ZS",
+      defaultParams: { country: "USA" },
+      keywords: ["unemployment", "jobless"],
+    },
+    // constant $
+    gdp_per_capita: {
+      params: wdi(1960),
+      dataset: "NY.GDP.PCAP.KD",
+      defaultParams: { country: "USA" },
+      keywords: ["gdp per capita", "income per capita"],
+    },
+    inflation_cpi_pct: {
+      params: wdi(1960),
+      dataset: "FP.CPI.TOTL.ZG",
+      defaultParams: { country: "USA" },
+      keywords: ["inflation", "consumer prices"],
+    },
+    population_total: {
+      params: wdi(1960),
+      dataset: "SP.POP.TOTL",
+      defaultParams: { country: "USA" },
+      keywords: ["population"],
+    },
+    // any WDI series; dataset comes from params.indicator (a WDI code picked via the indicator index)
+    worldbank_indicator: {
+      params: wdi(1960).extend({ indicator }),
+      defaultParams: { country: "USA" },
+    },
+  },
+  examples: [
+    "US GDP per capita since 2000",
+    "Population Nigeria since 1990",
+    "Inflation CPI % Germany 2010–2024",
+  ],
+});
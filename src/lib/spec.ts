@@ -0,0 +1,404 @@
+// src/lib/spec.ts
+// Vega-Lite spec compilation for a run's rows: the base spec for the plan's
+// chart meta plus the saved style overrides (chart type, palette, legend, fonts),
+// and the patches every spec gets before it's drawn (patchAll).
+// Used by the page, Chart, the CLI for `--format vega-lite` and the headless renderer.
+// Pure: safe to import on client and server.
+
+import type { VisualizationSpec } from "vega-embed";
+import { CATALOG, isMetricId } from "@/lib/catalog";
+import type { Granularity, Row, RunResult } from "@/lib/schema";
+import type { StyleConfig } from "@/lib/state/style";
+
+type VLSpec = VisualizationSpec;
+
+// Vega-Lite time unit matching each row granularity (axis labels + tooltips)
+const TIME_UNIT: Record<Granularity, string> = {
+  year: "year",
+  quarter: "yearquarter",
+  month: "yearmonth",
+  day: "yearmonthdate",
+  hour: "yearmonthdatehours",
+};
+
+function latestBySeries(rows: any[]) {
+  // Build { series: string, value: number } using the latest date per series
+  const bySeries = new Map<string, { date: string; value: number }>();
+  for (const r of rows) {
+    const s = r.series ?? 'Series';
+    const d = r.date ?? r.year ?? '';
+    const v = Number(r.value);
+    if (!Number.isFinite(v) || !d) continue;
+    const prev = bySeries.get(s);
+    if (!prev || String(d) > String(prev.date)) bySeries.set(s, { date: String(d), value: v });
+  }
+  return Array.from(bySeries.entries()).map(([series, { value }]) => ({ series, value }));
+}
+
+function applyPaletteToSpec(spec: any, palette?: string[]) {
+  if (!palette || !palette.length) return spec;
+  // Apply to color scale if present; otherwise to mark color (single series)
+  if (spec.encoding?.color) {
+    spec.encoding.color.scale = spec.encoding.color.scale || {};
+    spec.encoding.color.scale.range = palette;
+  } else {
+    if (typeof spec.mark === 'string') {
+      spec.mark = { type: spec.mark, color: palette[0] };
+    } else {
+      spec.mark = { ...(spec.mark || {}), color: palette[0] };
+    }
+  }
+  return spec;
+}
+
+function withPieOrDonutSpec(baseTitle: string | undefined, rows: any[], palette?: string[], donut = false) {
+  const seriesRows = latestBySeries(rows);
+  if (!seriesRows.length || seriesRows.length === 1) return null; // Not suitable; caller should fallback.
+
+  const spec: any = {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    title: baseTitle,
+    data: { values: seriesRows },
+    mark: { type: 'arc', innerRadius: donut ? 60 : 0 },
+    encoding: {
+      theta: { field: 'value', type: 'quantitative' },
+      color: { field: 'series', type: 'nominal' },
+      tooltip: [
+        { field: 'series', type: 'nominal', title: 'Series' },
+        { field: 'value', type: 'quantitative', title: 'Value' },
+      ],
+    },
+    view: { stroke: null },
+  };
+  return applyPaletteToSpec(spec, palette);
+}
+
+function applyChartTypeOverrides(spec: any, chartType?: string, rows?: any[], palette?: string[]) {
+  if (!chartType) return applyPaletteToSpec(spec, palette);
+
+  // Circle = points with circle shape
+  if (chartType === 'circle') {
+    if (typeof spec.mark === 'string') {
+      spec.mark = { type: 'point', shape: 'circle' };
+    } else {
+      spec.mark = { ...(spec.mark || {}), type: 'point', shape: 'circle' };
+    }
+    return applyPaletteToSpec(spec, palette);
+  }
+
+  // Bar (vertical)
+  if (chartType === 'bar') {
+    spec.mark = 'bar';
+    // Ensure x = category (date/year), y = value
+    if (spec.encoding) {
+      spec.encoding.x = spec.encoding.x || { field: 'date', type: 'temporal', title: 'Date' };
+      spec.encoding.y = { field: 'value', type: 'quantitative', title: spec.encoding.y?.title || 'Value' };
+    }
+    return applyPaletteToSpec(spec, palette);
+  }
+
+  // Bar (horizontal)
+  if (chartType === 'bar-horizontal') {
+    spec.mark = { type: 'bar', orient: 'horizontal' };
+    // Swap axes: value on X, category on Y
+    spec.encoding = spec.encoding || {};
+    spec.encoding.x = { field: 'value', type: 'quantitative', title: spec.encoding?.y?.title || 'Value' };
+    spec.encoding.y = spec.encoding.y || { field: 'date', type: 'temporal', title: 'Date' };
+    return applyPaletteToSpec(spec, palette);
+  }
+
+  // Pie / Donut (requires series)
+  if (chartType === 'pie' || chartType === 'donut') {
+    const pieSpec = withPieOrDonutSpec(spec.title, rows || [], palette, chartType === 'donut');
+    if (pieSpec) return pieSpec;
+
+    // Fallback safely to bar if we cannot build a meaningful pie/donut
+    const fb = { ...spec, mark: 'bar' };
+    fb.encoding = fb.encoding || {};
+    fb.encoding.x = fb.encoding.x || { field: 'date', type: 'temporal', title: 'Date' };
+    fb.encoding.y = { field: 'value', type: 'quantitative', title: spec.encoding?.y?.title || 'Value' };
+    return applyPaletteToSpec(fb, palette);
+  }
+
+  // Area/Line/Scatter default handling
+  if (chartType === 'area') {
+    spec.mark = 'area';
+  } else if (chartType === 'scatter') {
+    spec.mark = 'point';
+  } else if (chartType === 'line') {
+    spec.mark = 'line';
+  }
+  return applyPaletteToSpec(spec, palette);
+}
+
+// compileSpec: inject style overrides after base spec is constructed.
+// Rows are canonical (validated on the server): { date, value, series? } at one granularity.
+// `styleCfg` is the page's saved style (getStyleConfig()); null for the plain spec.
+export function compileSpec(chart: any, rows: Row[], granularity: Granularity, styleCfg: StyleConfig | null = null) {
+  const cleaned = rows || [];
+
+  const xField = "date";
+  const xType = "temporal";
+  const timeUnit = TIME_UNIT[granularity];
+  const yField = "value";
+  const yType = "quantitative";
+
+  const chosenType = styleCfg?.chartType || (chart?.mark as string | undefined);
+  let mark: any = chart?.mark || "line";
+  if (chosenType) {
+    if (chosenType === "bar-horizontal") {
+      mark = { type: "bar", orient: "horizontal" };
+    } else if (["line", "area", "bar", "scatter"].includes(String(chosenType))) {
+      mark = String(chosenType);
+    }
+  }
+  const title = chart?.title;
+
+  const fallbackY =
+    chart?.y?.title ??
+    (typeof title === "string" ? title.replace(/^(?:[A-Z]{2,3}\s+)?/, "") : undefined) ??
+    "Value";
+
+  // If user selected bars, ensure a categorical axis and correct orientation
+  const wantsBar = chosenType === "bar" || chosenType === "bar-horizontal" || mark === "bar" || (typeof mark === "object" && mark?.type === "bar");
+  let encodingX: any = { field: xField, type: xType, timeUnit, title: chart?.x?.title };
+  let encodingY: any = { field: yField, type: yType, title: fallbackY };
+
+  if (wantsBar) {
+    // Categorical dimension: one band per year for yearly data; finer data is bucketed by year
+    const category =
+      granularity === "year"
+        ? { field: "date", type: "ordinal", timeUnit: "year", title: chart?.x?.title || "Year" }
+        : { field: "date", type: "temporal", timeUnit: "year", title: chart?.x?.title || "Year" };
+    const value = { field: "value", type: "quantitative", title: fallbackY };
+
+    const catOnX = chosenType !== "bar-horizontal"; // vertical bars => category on X, value on Y
+    encodingX = catOnX ? category : value;
+    encodingY = catOnX ? value : category;
+  }
+
+  const spec: any = {
+    $schema: "https://vega.github.io/schema/vega-lite/v5.json",
+    ...(title ? { title } : {}),
+    mark,
+    encoding: {
+      x: encodingX,
+      y: encodingY,
+    },
+    data: { values: cleaned },
+  };
+
+  // Apply style overrides via config/encoding
+  if (styleCfg) {
+    spec.config = spec.config || {};
+    if (styleCfg.colorPalette && styleCfg.colorPalette.length) {
+      spec.config.range = { ...(spec.config.range || {}), category: styleCfg.colorPalette.slice() };
+      // If we already have a color encoding, ensure it respects the palette
+      if (spec.encoding) {
+        const enc: any = spec.encoding;
+        if (enc.color) enc.color.scale = { ...(enc.color.scale || {}), range: styleCfg.colorPalette.slice() };
+      }
+      // If there is no color encoding (single-series), set mark color to the first palette color
+      const first = styleCfg.colorPalette[0];
+      if (first && (!spec.encoding || !(spec.encoding as any).color)) {
+        if (typeof spec.mark === "string") {
+          spec.mark = { type: spec.mark, color: first };
+        } else {
+          spec.mark = { ...(spec.mark || {}), color: first };
+        }
+      }
+    }
+    if (styleCfg.legendPosition) {
+      spec.config.legend = { ...(spec.config.legend || {}), orient: styleCfg.legendPosition };
+    }
+    if (typeof styleCfg.fontSize === "number") {
+      const fs = styleCfg.fontSize;
+      spec.config.axis = { ...(spec.config.axis || {}), labelFontSize: fs, titleFontSize: Math.max(12, Math.round(fs * 1.1)) };
+      spec.config.legend = { ...(spec.config.legend || {}), labelFontSize: fs, titleFontSize: Math.max(12, Math.round(fs * 1.1)) };
+      spec.config.header = { ...(spec.config.header || {}), labelFontSize: fs };
+    }
+    if (typeof styleCfg.grid === "boolean") {
+      spec.config.axis = { ...(spec.config.axis || {}), grid: styleCfg.grid };
+    }
+    if (styleCfg.background) {
+      spec.config.background = styleCfg.background;
+    }
+    if (typeof styleCfg.strokeWidth === "number") {
+      if (typeof spec.mark === "string") {
+        spec.mark = { type: spec.mark, strokeWidth: styleCfg.strokeWidth };
+      } else {
+        spec.mark = { ...(spec.mark || {}), strokeWidth: styleCfg.strokeWidth };
+      }
+    }
+    if (typeof styleCfg.pointSize === "number") {
+      spec.config.point = { ...(spec.config.point || {}), size: styleCfg.pointSize };
+    }
+  }
+
+  // Apply overrides from saved style config (chart type + palette),
+  // with safe fallbacks for pie/donut when data shape doesn't fit
+  const out = applyChartTypeOverrides(
+    spec,
+    styleCfg?.chartType as string | undefined,
+    rows,
+    styleCfg?.colorPalette
+  );
+
+  return out;
+}
+
+/**
+ * The chart meta a spec is compiled from: the plan's, with the title and
+ * y-axis label the source returned filled in.
+ */
+export function chartMetaFor(chart: Record<string, unknown> | undefined, result: RunResult) {
+  const y = chart?.y as { title?: string } | undefined;
+  const fetchedYLabel = result.yLabel ?? result.title ?? undefined;
+  return { ...(chart || {}), y: { title: y?.title ?? fetchedYLabel }, title: (chart?.title as string | undefined) ?? result.title };
+}
+
+/**
+ * The spec for a plan's result outside the page (CLI, /api/render): the
+ * metric's default mark when the plan has none, the source's labels, and
+ * `styleCfg` if given.
+ */
+export function specForPlan(plan: { metricId: string; chart?: Record<string, unknown> }, result: RunResult, styleCfg: StyleConfig | null = null) {
+  const chart: Record<string, unknown> = { ...(plan.chart ?? {}) };
+  // Metric-level chart default, as on the page (e.g. stacked bars for AQI breakdowns)
+  const def = isMetricId(plan.metricId) ? CATALOG[plan.metricId] : undefined;
+  if (def?.chart?.mark && !chart.mark) chart.mark = def.chart.mark;
+  return compileSpec(chartMetaFor(chart, result), result.rows, result.granularity, styleCfg);
+}
+
+/**
+ * Patches applied before a spec is drawn (in the browser by Chart, headless by
+ * src/lib/render.ts): a friendly y-axis title, and a color legend when rows
+ * carry a `series`. Mutates and returns `s`.
+ */
+export function patchAll(s: VLSpec): VLSpec {
+  let out = patchYAxisTitle(s);
+  out = patchColorLegend(out);
+  return out;
+}
+
+/** Ensure y-axis has a friendly title (not "value"). Handles single & layered specs. */
+function patchYAxisTitle(s: VLSpec): VLSpec {
+  const anySpec: any = s as any;
+  const layers: any[] = Array.isArray(anySpec.layer) ? anySpec.layer : [anySpec];
+
+  for (const sp of layers) {
+    const y = sp?.encoding?.y;
+    const currentTitle: string | undefined =
+      (typeof y === "object" && y?.title) ||
+      (typeof y === "object" && typeof y.axis === "object" && y.axis?.title) ||
+      undefined;
+
+    // If already set to something other than "value", leave it alone
+    if (currentTitle && !/^(value|values?)$/i.test(currentTitle.trim())) continue;
+
+    const fromMeta =
+      sp?.meta?.yLabel ||
+      sp?.usermeta?.yLabel ||
+      anySpec?.meta?.yLabel ||
+      anySpec?.usermeta?.yLabel ||
+      (anySpec as any).yLabel;
+
+    const yField =
+      typeof y === "object" && typeof y.field === "string" ? y.field : undefined;
+
+    const fromField =
+      yField && !/^(value|values?)$/i.test(yField) ? prettify(yField) : undefined;
+
+    const fromTitle = inferFromTitle(anySpec?.title);
+
+    const candidate =
+      fromMeta || (fromField ?? fromTitle) || fromTitle || "Value";
+
+    // Write the title back
+    if (typeof y === "object") {
+      sp.encoding = {
+        ...sp.encoding,
+        y: { ...y, title: candidate, axis: { ...(y.axis ?? {}), title: candidate } },
+      };
+    } else {
+      sp.encoding = { ...(sp.encoding ?? {}), y: { title: candidate, axis: { title: candidate } } };
+    }
+  }
+
+  return anySpec;
+}
+
+/** If data has a 'series' field but encoding.color is missing, add color + legend. */
+function patchColorLegend(s: VLSpec): VLSpec {
+  const anySpec: any = s as any;
+  const layers: any[] = Array.isArray(anySpec.layer) ? anySpec.layer : [anySpec];
+
+  const RACES = new Set(["White", "Black", "Asian", "Hispanic"]);
+  // EPA's official AQI category colors, best to worst
+  const AQI_COLORS: Record<string, string> = {
+    "Good": "#00e400",
+    "Moderate": "#ffff00",
+    "Unhealthy for Sensitive Groups": "#ff7e00",
+    "Unhealthy": "#ff0000",
+    "Very Unhealthy": "#8f3f97",
+    "Hazardous": "#7e0023",
+  };
+
+  const hasSeriesInValues = (specPart: any) => {
+    const vals = specPart?.data?.values;
+    if (Array.isArray(vals) && vals.length) {
+      // check a handful of rows to avoid scanning huge arrays
+      const sample = vals.slice(0, Math.min(8, vals.length));
+      return sample.some((r: any) => r && typeof r === "object" && "series" in r);
+    }
+    return false;
+  };
+
+  for (const sp of layers) {
+    const enc = sp?.encoding ?? {};
+    const hasColor = !!enc.color;
+    const hasSeriesField = !!(enc?.color?.field === "series" || enc?.detail?.field === "series" || enc?.tooltip?.some?.((t: any) => t.field === "series"));
+
+    if (!hasColor && (hasSeriesField || hasSeriesInValues(sp))) {
+      const sampleVals = Array.isArray(sp?.data?.values) ? sp.data.values.slice(0, 12) : [];
+      const seriesVals = new Set<string>();
+      for (const r of sampleVals) if (r?.series) seriesVals.add(String(r.series));
+      const allAreRaces = [...seriesVals].every(v => RACES.has(v));
+      const allAreAqi = seriesVals.size > 0 && [...seriesVals].every(v => v in AQI_COLORS);
+      const aqiOrder = Object.keys(AQI_COLORS);
+
+      sp.encoding = {
+        ...enc,
+        color: {
+          field: "series",
+          type: "nominal",
+          title: allAreRaces ? "Race" : allAreAqi ? "AQI category" : "Series",
+          // Keep categories in severity order with their standard colors
+          ...(allAreAqi
+            ? { sort: aqiOrder, scale: { domain: aqiOrder, range: aqiOrder.map((c) => AQI_COLORS[c]) } }
+            : {}),
+        },
+        tooltip: enc.tooltip ?? [
+          { field: "series", type: "nominal", title: allAreRaces ? "Race" : "Series" },
+          // Follow the x time unit so yearly / monthly rows show "2020" / "Mar 2020", not a full date
+          { field: "date", type: "temporal", title: "Date", ...(enc?.x?.field === "date" && enc.x.timeUnit ? { timeUnit: enc.x.timeUnit } : {}) },
+          { field: "value", type: "quantitative", title: "Value" },
+        ],
+      };
+    }
+  }
+
+  return anySpec;
+}
+
+export function prettify(field: string): string {
+  return field.replace(/[_\-.]+/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/** e.g., "US GDP per Capita" -> "GDP per Capita" */
+function inferFromTitle(title: any): string | undefined {
+  const t = typeof title === "string" ? title : title?.text;
+  if (!t) return undefined;
+  const m = t.match(/^(?:[A-Z]{2,3}\s+)?(.+)$/);
+  return m ? m[1] : undefined;
+}
@@ -0,0 +1,237 @@
+"use client";
+
+// Local library of the charts a user has made: every successful run (query,
+// the plan that ran, its style, provenance, time) kept in IndexedDB so earlier
+// charts survive the next query and a reload. Same shape as the style store
+// (style.ts): module state, mutators that notify subscribers, a versioned key.
+// Entries can be renamed, pinned, deleted, and exported/imported as JSON.
+
+import { z } from "zod";
+import { StyleSchema, type Permalink } from "@/lib/permalink";
+import type { StyleConfig } from "@/lib/state/style";
+
+export type HistoryEntry = {
+  id: string;
+  title: string; // the query until renamed
+  query: string;
+  plan: Permalink["plan"];
+  style: StyleConfig | null;
+  provenance: { source: string; url: string; license?: string; note?: string };
+  ranAt: string; // ISO time of the latest run
+  pinned: boolean;
+};
+
+const DB_NAME = "lookable.history.v1";
+const STORE = "entries";
+
+// Unpinned entries past this are dropped, oldest first
+const MAX_UNPINNED = 200;
+
+const EXPORT_FORMAT = "lookable.history";
+const EXPORT_VERSION = 1;
+
+const EntrySchema = z.object({
+  id: z.string().min(1).max(100),
+  title: z.string().max(200),
+  query: z.string().max(500),
+  plan: z.object({
+    metricId: z.string().min(1).max(100),
+    params: z.record(z.string(), z.union([z.string(), z.number()])),
+    chart: z.record(z.string(), z.unknown()).optional(),
+    note: z.string().optional(),
+  }),
+  style: StyleSchema.nullable(),
+  provenance: z.object({ source: z.string(), url: z.string(), license: z.string().optional(), note: z.string().optional() }),
+  ranAt: z.iso.datetime(),
+  pinned: z.boolean(),
+});
+
+const ExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  entries: z.array(z.unknown()),
+});
+
+let entries: HistoryEntry[] = [];
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function emit() {
+  listeners.forEach((fn) => {
+    try { fn(); } catch {}
+  });
+}
+
+/** Pinned first, then the most recently run. */
+function sorted(list: HistoryEntry[]): HistoryEntry[] {
+  return [...list].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.ranAt.localeCompare(a.ranAt));
+}
+
+/** The list sorted, with unpinned entries past MAX_UNPINNED dropped (oldest run first). */
+function capped(list: HistoryEntry[]): { kept: HistoryEntry[]; dropped: HistoryEntry[] } {
+  const all = sorted(list);
+  const dropped = all.filter((e) => !e.pinned).slice(MAX_UNPINNED);
+  return { kept: all.filter((e) => !dropped.includes(e)), dropped };
+}
+
+/** Entries that parse; a stored or imported entry from a different build is skipped, not fatal. */
+function validEntries(list: unknown[]): HistoryEntry[] {
+  return list.flatMap((e) => {
+    const parsed = EntrySchema.safeParse(e);
+    return parsed.success ? [parsed.data as HistoryEntry] : [];
+  });
+}
+
+/* ---------------- IndexedDB ---------------- */
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  db ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "id" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return db;
+}
+
+/** Applies `fn` to the store in one transaction. The in-memory list is already updated. */
+async function write(fn: (store: IDBObjectStore) => void) {
+  try {
+    const conn = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = conn.transaction(STORE, "readwrite");
+      fn(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } catch {
+    // No IndexedDB (some private windows): the library lasts until the page reloads
+  }
+}
+
+// Load what's stored; runs recorded before it finishes are kept
+if (typeof window !== "undefined" && typeof indexedDB !== "undefined") {
+  openDb()
+    .then(
+      (conn) =>
+        new Promise<unknown[]>((resolve, reject) => {
+          const req = conn.transaction(STORE).objectStore(STORE).getAll();
+          req.onsuccess = () => resolve(req.result);
+          req.onerror = () => reject(req.error);
+        }),
+    )
+    .then((stored) => {
+      const seen = new Set(entries.map((e) => e.id));
+      entries = sorted([...entries, ...validEntries(stored).filter((e) => !seen.has(e.id))]);
+      emit();
+    })
+    .catch(() => {});
+}
+
+/* ---------------- Store API ---------------- */
+
+function newId(): string {
+  // randomUUID needs a secure context; plain-http LAN dev servers don't have one
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Same query, plan and style: re-running (or re-opening) it updates the entry instead of adding one. */
+function sameChart(a: Pick<HistoryEntry, "query" | "plan" | "style">, b: Pick<HistoryEntry, "query" | "plan" | "style">) {
+  return JSON.stringify([a.query, a.plan, a.style]) === JSON.stringify([b.query, b.plan, b.style]);
+}
+
+export function getHistory(): HistoryEntry[] {
+  return entries;
+}
+
+/** Records a successful run. Returns the entry (new, or the existing one for the same chart). */
+export function recordRun(run: Pick<HistoryEntry, "query" | "plan" | "style" | "provenance">): HistoryEntry {
+  const ranAt = new Date().toISOString();
+  const existing = entries.find((e) => sameChart(e, run));
+  const entry: HistoryEntry = existing
+    ? { ...existing, provenance: run.provenance, ranAt }
+    : { id: newId(), title: run.query, ...run, ranAt, pinned: false };
+
+  const { kept, dropped } = capped([entry, ...entries.filter((e) => e.id !== entry.id)]);
+  entries = kept;
+  emit();
+  void write((store) => {
+    store.put(entry);
+    for (const e of dropped) store.delete(e.id);
+  });
+  return entry;
+}
+
+function update(id: string, patch: Partial<Pick<HistoryEntry, "title" | "pinned">>) {
+  const current = entries.find((e) => e.id === id);
+  if (!current) return;
+  const entry = { ...current, ...patch };
+  entries = sorted(entries.map((e) => (e.id === id ? entry : e)));
+  emit();
+  void write((store) => store.put(entry));
+}
+
+/** A blank title goes back to the query. */
+export function renameEntry(id: string, title: string) {
+  const current = entries.find((e) => e.id === id);
+  if (current) update(id, { title: title.trim().slice(0, 200) || current.query });
+}
+
+export function setPinned(id: string, pinned: boolean) {
+  update(id, { pinned });
+}
+
+export function deleteEntry(id: string) {
+  entries = entries.filter((e) => e.id !== id);
+  emit();
+  void write((store) => store.delete(id));
+}
+
+/** The whole library as a JSON document for importHistory. */
+export function exportHistory(): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+}
+
+/**
+ * Adds the entries of an exported library, skipping ones already here (same
+ * id or same chart) and keeping the MAX_UNPINNED cap, so older unpinned runs
+ * may be dropped. Returns how many were added; throws when the text isn't a
+ * Lookable library.
+ */
+export function importHistory(text: string): number {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error("That file isn't JSON.");
+  }
+  const parsed = ExportSchema.safeParse(doc);
+  if (!parsed.success) throw new Error("That file isn't a Lookable library export.");
+
+  const added: HistoryEntry[] = [];
+  for (const e of validEntries(parsed.data.entries)) {
+    if ([...entries, ...added].some((x) => x.id === e.id || sameChart(x, e))) continue;
+    added.push(e);
+  }
+  if (!added.length) return 0;
+  const { kept, dropped } = capped([...entries, ...added]);
+  const stored = added.filter((e) => !dropped.includes(e));
+  entries = kept;
+  emit();
+  void write((store) => {
+    for (const e of stored) store.put(e);
+    for (const e of dropped) if (!added.includes(e)) store.delete(e.id);
+  });
+  return stored.length;
+}
+
+export function subscribe(fn: Listener) {
+  listeners.add(fn);
+  return () => listeners.delete(fn);
+}
@@ -0,0 +1,77 @@
+// src/lib/usStates.ts
+// US states (plus DC) with postal codes and FIPS codes, and a free-text matcher.
+// Pure data + helpers: safe to import on client and server.
+
+export type UsState = {
+  code: string;  // postal code, e.g. "CA"
+  name: string;  // e.g. "California"
+  fips: number;  // state FIPS code, e.g. 6
+};
+
+export const US_STATES: UsState[] = [
+  { code: "AL", name: "Alabama", fips: 1 }, { code: "AK", name: "Alaska", fips: 2 },
+  { code: "AZ", name: "Arizona", fips: 4 }, { code: "AR", name: "Arkansas", fips: 5 },
+  { code: "CA", name: "California", fips: 6 }, { code: "CO", name: "Colorado", fips: 8 },
+  { code: "CT", name: "Connecticut", fips: 9 }, { code: "DE", name: "Delaware", fips: 10 },
+  { code: "DC", name: "District of Columbia", fips: 11 }, { code: "FL", name: "Florida", fips: 12 },
+  { code: "GA", name: "Georgia", fips: 13 }, { code: "HI", name: "Hawaii", fips: 15 },
+  { code: "ID", name: "Idaho", fips: 16 }, { code: "IL", name: "Illinois", fips: 17 },
+  { code: "IN", name: "Indiana", fips: 18 }, { code: "IA", name: "Iowa", fips: 19 },
+  { code: "KS", name: "Kansas", fips: 20 }, { code: "KY", name: "Kentucky", fips: 21 },
+  { code: "LA", name: "Louisiana", fips: 22 }, { code: "ME", name: "Maine", fips: 23 },
+  { code: "MD", name: "Maryland", fips: 24 }, { code: "MA", name: "Massachusetts", fips: 25 },
+  { code: "MI", name: "Michigan", fips: 26 }, { code: "MN", name: "Minnesota", fips: 27 },
+  { code: "MS", name: "Mississippi", fips: 28 }, { code: "MO", name: "Missouri", fips: 29 },
+  { code: "MT", name: "Montana", fips: 30 }, { code: "NE", name: "Nebraska", fips: 31 },
+  { code: "NV", name: "Nevada", fips: 32 }, { code: "NH", name: "New Hampshire", fips: 33 },
+  { code: "NJ", name: "New Jersey", fips: 34 }, { code: "NM", name: "New Mexico", fips: 35 },
+  { code: "NY", name: "New York", fips: 36 }, { code: "NC", name: "North Carolina", fips: 37 },
+  { code: "ND", name: "North Dakota", fips: 38 }, { code: "OH", name: "Ohio", fips: 39 },
+  { code: "OK", name: "Oklahoma", fips: 40 }, { code: "OR", name: "Oregon", fips: 41 },
+  { code: "PA", name: "Pennsylvania", fips: 42 }, { code: "RI", name: "Rhode Island", fips: 44 },
+  { code: "SC", name: "South Carolina", fips: 45 }, { code: "SD", name: "South Dakota", fips: 46 },
+  { code: "TN", name: "Tennessee", fips: 47 }, { code: "TX", name: "Texas", fips: 48 },
+  { code: "UT", name: "Utah", fips: 49 }, { code: "VT", name: "Vermont", fips: 50 },
+  { code: "VA", name: "Virginia", fips: 51 }, { code: "WA", name: "Washington", fips: 53 },
+  { code: "WV", name: "West Virginia", fips: 54 }, { code: "WI", name: "Wisconsin", fips: 55 },
+  { code: "WY", name: "Wyoming", fips: 56 },
+];
+
+// Longest names first so "West Virginia" isn't read as "Virginia"
+const BY_NAME = [...US_STATES].sort((a, b) => b.name.length - a.name.length);
+
+// Extra spellings; "Washington DC" must win over the state of Washington
+const ALIASES: Array<[RegExp, string]> = [
+  [/\bwashington,?\s+d\.?\s?c\.?(?![\w])|\bd\.c\.(?![\w])/gi, "DC"],
+];
+
+/** State by postal code, FIPS code or full name (case-insensitive). */
+export function stateByCode(code: string | number): UsState | undefined {
+  const c = String(code).trim();
+  if (/^\d{1,2}$/.test(c)) return US_STATES.find((s) => s.fips === Number(c));
+  const upper = c.toUpperCase();
+  return US_STATES.find((s) => s.code === upper || s.name.toUpperCase() === upper);
+}
+
+/**
+ * Every state named in the query, in order of appearance. Full names match in
+ * any case; two-letter postal codes only when written in capitals ("CA", "TX").
+ */
+export function statesFromQuery(query: string): UsState[] {
+  let rest = String(query || "");
+  const hits: Array<[number, UsState]> = [];
+  const take = (re: RegExp, state: UsState) => {
+    rest = rest.replace(re, (m, ...args) => {
+      const at = args[args.length - 2] as number;
+      hits.push([at, state]);
+      return " ".repeat(m.length);
+    });
+  };
+
+  for (const [re, code] of ALIASES) take(re, stateByCode(code)!);
+  for (const s of BY_NAME) take(new RegExp(`\\b${s.name.replace(/\s+/g, "\\s+")}\\b`, "gi"), s);
+  for (const s of US_STATES) take(new RegExp(`(^|[\\s,(])${s.code}(?=$|[\\s,.;)])`, "g"), s);
+
+  hits.sort((a, b) => a[0] - b[0]);
+  return Array.from(new Set(hits.map(([, s]) => s)));
+}
@@ -0,0 +1,209 @@
+// src/lib/wdiIndex.ts
+// Searchable index of World Bank WDI indicators (code, name, unit, topic).
+// Seeds from a bundled list of popular series, then merges the full WDI catalog
+// from the World Bank API when reachable. Server-only (do not import in client components).
+
+import "server-only";
+import SEED from "@/lib/data/wdi_indicators.json";
+import { cachedFetch } from "@/lib/httpCache";
+
+export type WdiIndicator = {
+  code: string;   // e.g. "SE.ADT.LITR.ZS"
+  name: string;   // official display name
+  unit?: string;  // e.g. "% of GDP"
+  topic?: string; // WDI topic, e.g. "Education"
+};
+
+export type WdiMatch = WdiIndicator & { score: number };
+
+type IndexEntry = WdiIndicator & { popular: boolean; tokens: string[] };
+
+let CACHE: Promise<IndexEntry[]> | null = null;
+// A seed-only index (the full list failed to load) is rebuilt after this time
+let RETRY_AT = 0;
+const SEED_ONLY_TTL_MS = 5 * 60 * 1000;
+
+// WDI is source 2 in the World Bank API
+const WDI_INDICATORS_URL = "https://api.worldbank.org/v2/sources/2/indicators?format=json&per_page=20000";
+
+// --- utils ---
+
+// Strip accents safely (same approach as countryIndex)
+function stripAccents(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f\u1AB0-\u1AFF\u1DC0-\u1DFF\u20D0-\u20FF\uFE20-\uFE2F]/g, "");
+}
+
+// Words that say nothing about *which* indicator the user wants
+const STOPWORDS = new Set([
+  "a", "an", "the", "of", "in", "on", "for", "to", "from", "and", "or", "by", "vs", "versus",
+  "at", "as", "with", "since", "between", "over", "last", "past", "years", "year", "until",
+  "present", "now", "show", "me", "chart", "plot", "graph", "trend", "trends", "data",
+  "compare", "comparison", "what", "is", "was", "how", "has", "changed", "time", "world", "bank",
+  "wdi", "indicator", "total",
+]);
+
+// Breakdown qualifiers: only prefer these series when the query asks for them
+const QUALIFIERS = new Set(["female", "male", "youth", "rural", "urban", "adolescent", "ages"]);
+
+// Common user phrasings → words used in WDI indicator names
+const SYNONYMS: Record<string, string[]> = {
+  co2: ["carbon", "dioxide"],
+  carbon: ["co2"],
+  ghg: ["greenhouse"],
+  jobless: ["unemployment"],
+  unemployed: ["unemployment"],
+  births: ["fertility", "birth"],
+  kids: ["children"],
+  doctors: ["physicians"],
+  healthcare: ["health"],
+  spending: ["expenditure"],
+  spend: ["expenditure"],
+  inequality: ["gini"],
+  poor: ["poverty"],
+  electricity: ["electric"],
+  renewables: ["renewable"],
+  trees: ["forest"],
+  murder: ["homicides"],
+  homicide: ["homicides"],
+  women: ["female"],
+  men: ["male"],
+  school: ["enrollment"],
+};
+
+function tokenize(s: string): string[] {
+  return stripAccents(String(s || "").toLowerCase())
+    .replace(/[^a-z0-9%$.\s-]+/g, " ")
+    .split(/[\s-]+/)
+    .map((t) => t.replace(/^\.+|\.+$/g, ""))
+    .filter(Boolean);
+}
+
+/** Normalize a query into search terms (drops stopwords, years and lat/lon-ish numbers). */
+function queryTerms(query: string): string[] {
+  const out: string[] = [];
+  for (const t of tokenize(query)) {
+    if (STOPWORDS.has(t)) continue;
+    if (/^\d+(\.\d+)?$/.test(t)) continue;
+    out.push(t);
+    for (const alt of SYNONYMS[t] ?? []) if (!out.includes(alt)) out.push(alt);
+  }
+  return out;
+}
+
+/** Derive a unit from a trailing "(...)" in the indicator name when the API leaves it blank. */
+export function unitFromName(name: string): string | undefined {
+  const m = String(name).match(/\(([^()]+)\)\s*(?:\([^()]*estimate[^()]*\))?\s*$/i);
+  return m ? m[1].trim() : undefined;
+}
+
+function toEntry(ind: WdiIndicator, popular: boolean): IndexEntry {
+  return {
+    ...ind,
+    popular,
+    tokens: tokenize(`${ind.name} ${ind.topic ?? ""}`),
+  };
+}
+
+// --- data access ---
+
+async function fetchWdiIndicatorsJson(): Promise<WdiIndicator[]> {
+  const res = await cachedFetch("worldbank", WDI_INDICATORS_URL, undefined, { ttl: 86400 * 7 });
+  if (!res.ok) throw new Error(`WDI indicator list fetch failed: ${res.status}`);
+  const json = await res.json();
+  const list: Array<{ id?: string; name?: string; unit?: string; topics?: Array<{ value?: string }> }> =
+    Array.isArray(json?.[1]) ? json[1] : [];
+  return list
+    .filter((r) => r?.id && r?.name)
+    .map((r) => ({
+      code: String(r.id),
+      name: String(r.name).trim(),
+      unit: (r.unit && String(r.unit).trim()) || unitFromName(String(r.name)),
+      topic: r.topics?.find((t) => t?.value)?.value?.trim(),
+    }));
+}
+
+export async function getWdiIndex(): Promise<IndexEntry[]> {
+  if (CACHE && !(RETRY_AT && Date.now() >= RETRY_AT)) return CACHE;
+  RETRY_AT = 0;
+  CACHE = (async () => {
+    const seed = (SEED as WdiIndicator[]).map((ind) => toEntry(ind, true));
+    const byCode = new Map(seed.map((e) => [e.code, e]));
+    try {
+      const all = await fetchWdiIndicatorsJson();
+      for (const ind of all) {
+        // Bundled entries win: they carry curated units/topics
+        if (!byCode.has(ind.code)) byCode.set(ind.code, toEntry(ind, false));
+      }
+    } catch (err) {
+      console.error("wdiIndex: using bundled indicators only; reason:", err);
+      RETRY_AT = Date.now() + SEED_ONLY_TTL_MS;
+    }
+    return Array.from(byCode.values());
+  })();
+  return CACHE;
+}
+
+/** Look up a single indicator by its WDI code. */
+export async function getWdiIndicator(code: string): Promise<WdiIndicator | undefined> {
+  const want = String(code || "").trim().toUpperCase();
+  if (!want) return undefined;
+  const idx = await getWdiIndex();
+  const hit = idx.find((e) => e.code.toUpperCase() === want);
+  return hit ? { code: hit.code, name: hit.name, unit: hit.unit, topic: hit.topic } : undefined;
+}
+
+/**
+ * Keyword search over the indicator index.
+ * Scores by how many query terms appear in the indicator name/topic. Terms that
+ * show up in a large share of the index ("rate", "population") count for less
+ * and cannot produce a match on their own. Bundled (popular) series get a small
+ * boost and long or breakdown-specific names a small penalty, so "literacy" prefers
+ * the adult total rate over the youth and female/male breakdowns.
+ */
+export async function searchWdiIndicators(query: string, limit = 5): Promise<WdiMatch[]> {
+  const idx = await getWdiIndex();
+  const raw = String(query || "");
+
+  // Explicit code like "SE.ADT.LITR.ZS" wins outright
+  const codeMatch = raw.match(/\b[A-Z]{2}(?:\.[A-Z0-9]+){1,5}\b/i);
+  if (codeMatch) {
+    const hit = idx.find((e) => e.code.toUpperCase() === codeMatch[0].toUpperCase());
+    if (hit) return [{ code: hit.code, name: hit.name, unit: hit.unit, topic: hit.topic, score: 100 }];
+  }
+
+  const terms = queryTerms(raw);
+  if (!terms.length) return [];
+
+  const matches = (e: IndexEntry, t: string) =>
+    e.tokens.some((tok) => tok === t || (t.length >= 4 && tok.startsWith(t)));
+
+  // Down-weight terms that appear in more than 5% of indicators
+  const weight = new Map<string, number>();
+  for (const t of terms) {
+    const df = idx.reduce((n, e) => n + (matches(e, t) ? 1 : 0), 0);
+    weight.set(t, df / idx.length > 0.05 ? 0.5 : 1);
+  }
+
+  const scored: WdiMatch[] = [];
+  for (const e of idx) {
+    let hits = 0;
+    let strong = false;
+    for (const t of terms) {
+      if (!matches(e, t)) continue;
+      const w = weight.get(t) ?? 1;
+      hits += w;
+      if (w === 1) strong = true;
+    }
+    if (!strong) continue;
+
+    const extra = e.tokens.filter((tok) => !terms.includes(tok) && !STOPWORDS.has(tok) && !/^\d/.test(tok));
+    const unasked = extra.filter((tok) => QUALIFIERS.has(tok)).length;
+    const score = hits * 2 + (e.popular ? 0.75 : 0) - extra.length * 0.05 - unasked * 0.25;
+    scored.push({ code: e.code, name: e.name, unit: e.unit, topic: e.topic, score: Math.round(score * 100) / 100 });
+  }
+
+  scored.sort((a, b) => b.score - a.score || a.name.length - b.name.length);
+  return scored.slice(0, Math.max(1, limit));
+}
@@ -135,6 +135,16 @@ export async function ensureClientEngine(): Promise<any | null> {
         return JSON.stringify({ source: "worldbank", metricId: "gdp_per_capita", params: { country: country ?? "USA", ...(years.start ? { start: years.start, end: years.end } : {}) }, confidence: 0.9, explain: "gdp heuristic" });
       }
 
+      if (/\bcore\s+(cpi|inflation)\b|\bcpi[-\s]?u\b|\bnon[-\s]?farm\b|\bpayrolls?\b|\bhourly\s+earnings\b|\b(labor|labour)\s+force\s+participation\b/.test(p)) {
+        const series = /\bcore\b/.test(p) ? "cpi_core" : /\bcpi/.test(p) ? "cpi_all_items" : /\bnon[-\s]?farm\b|\bpayrolls?\b/.test(p) ? "nonfarm_payrolls" : /\bearnings\b/.test(p) ? "avg_hourly_earnings" : "labor_force_participation";
+        return JSON.stringify({ source: "bls", metricId: "bls_series", params: { series, ...(years.start ? { start: years.start, end: years.end } : {}) }, confidence: 0.88, explain: "bls series heuristic" });
+      }
+
+      if (/\benroll(ment|ed)?\b/.test(p) && /\b(schools?|k-?12|students?|grade|kindergarten)\b/.test(p) && !/\b(college|universit(y|ies)|tertiary)\b/.test(p)) {
+        const metricId = /by\s*race|black|white|asian|hispanic/.test(p) ? "urban_enrollment_race" : "urban_enrollment_grade";
+        return JSON.stringify({ source: "urban", metricId, params: { ...(years.start ? { start: years.start, end: years.end } : {}) }, confidence: 0.85, explain: "school enrollment heuristic" });
+      }
+
       if (/(inflation|cpi)\b/.test(p)) {
         return JSON.stringify({ source: "worldbank", metricId: "inflation_cpi_pct", params: { country: country ?? "USA", ...(years.start ? { start: years.start, end: years.end } : {}) }, confidence: 0.9, explain: "inflation heuristic" });
       }
@@ -144,15 +154,21 @@ export async function ensureClientEngine(): Promise<any | null> {
       }
 
       if (/(aqi|air\s*quality)/.test(p)) {
-        return JSON.stringify({ source: "epa_aqi", metricId: "aqi_daily_cbsa", params: null, confidence: 0.9, explain: "aqi heuristic" });
+        const metricId = /\b(pollutants?|defining|drove|drives|driv(er|ers|ing)|ozone|pm\s*2\.?5|pm\s*10|no2|so2)\b/.test(p)
+          ? "aqi_pollutant_days_cbsa"
+          : /\b(categor(y|ies)|unhealthy|good\s+days|days\s+(per|by|in))\b/.test(p)
+            ? "aqi_category_days_cbsa"
+            : "aqi_daily_cbsa";
+        return JSON.stringify({ source: "epa_aqi", metricId, params: null, confidence: 0.9, explain: "aqi heuristic" });
       }
 
       if (/(life\s*expectancy)/.test(p)) {
         return JSON.stringify({ source: "owid", metricId: "life_expectancy", params: { country: country ?? "USA", ...(years.start ? { start: years.start, end: years.end } : {}) }, confidence: 0.9, explain: "life expectancy heuristic" });
       }
 
-      if (/(co2|carbon\s+emissions?)/.test(p)) {
-        return JSON.stringify({ source: "owid", metricId: "co2_emissions", params: { country: country ?? "USA", ...(years.start ? { start: years.start, end: years.end } : {}) }, confidence: 0.9, explain: "co2 heuristic" });
+      if (/(co2|carbon\s+(dioxide\s+)?emissions?|\b(coal|oil|gas|cement|flaring)\s+emissions?|\bmethane\b|nitrous\s+oxide|greenhouse\s+gas|\bghg\b)/.test(p)) {
+        const metricId = /\bby\s+(fuel|source)\b|\bfuel\s+(mix|breakdown)\b|\bbreak\s*down\b|\bbreakdown\b/.test(p) ? "co2_by_fuel" : "co2_emissions";
+        return JSON.stringify({ source: "owid", metricId, params: { country: country ?? "USA", ...(years.start ? { start: years.start, end: years.end } : {}) }, confidence: 0.9, explain: "co2 heuristic" });
       }
 
       return JSON.stringify({ source: "unknown", metricId: null, params: null, confidence: 0.0, explain: "no confident suggestion" });